@@ -11,5 +11,6 @@ export { useFhevm } from './useFhevm.js';
 export { useContract } from './useContract.js';
 export { useDecrypt } from './useDecrypt.js';
 export { useEncrypt } from './useEncrypt.js';
+export { useFhevmStore } from './useFhevmStore.js';
 
 
@@ -3,39 +3,35 @@
  */
 
 import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import { decryptAndVerify, toFhevmError, FhevmErrorCode, isOperationPending } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
 
 export function useDecrypt() {
-  const [isDecrypting, setIsDecrypting] = useState(false);
+  const state = useFhevmStore();
+  // The store sees public decryptions from anywhere; the verification transaction is only known here
+  const [isVerifying, setIsVerifying] = useState(false);
+  const isDecrypting = isVerifying || isOperationPending(state, 'publicDecrypt');
   const [error, setError] = useState<string>('');
+  const [errorCode, setErrorCode] = useState<FhevmErrorCode | null>(null);
 
   const verifyDecryption = useCallback(async (
     handles: string[],
     contractAddress: string,
     verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
   ) => {
-    setIsDecrypting(true);
+    setIsVerifying(true);
     setError('');
+    setErrorCode(null);
 
     try {
-      const decryptionResult = await publicDecryptV09(handles);
-
-      const tx = await verifyFunction(
-        decryptionResult.abiEncodedClearValues,
-        decryptionResult.decryptionProof
-      );
-
-      const receipt = await tx.wait();
-
-      return {
-        decryptionResult,
-        transactionReceipt: receipt
-      };
+      return await decryptAndVerify(handles, verifyFunction);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decryption verification failed');
-      throw err;
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message);
+      setErrorCode(fhevmError.code);
+      throw fhevmError;
     } finally {
-      setIsDecrypting(false);
+      setIsVerifying(false);
     }
   }, []);
 
@@ -43,6 +39,7 @@ export function useDecrypt() {
     verifyDecryption,
     isDecrypting,
     error,
+    errorCode,
   };
 }
 
@@ -3,31 +3,49 @@
  */
 
 import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import {
+  getDefaultFhevmClient,
+  getWorkerFhevmClient,
+  toFhevmError,
+  FhevmErrorCode,
+  isOperationPending,
+} from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
 
-export function useEncrypt() {
-  const [isEncrypting, setIsEncrypting] = useState(false);
+export interface UseEncryptOptions {
+  /** Encrypt in a Web Worker so the UI stays responsive (the worker starts on first use) */
+  worker?: boolean;
+}
+
+export function useEncrypt(options: UseEncryptOptions = {}) {
+  const client = options.worker ? getWorkerFhevmClient() : getDefaultFhevmClient();
+  const isEncrypting = isOperationPending(useFhevmStore(client.store), 'encrypt');
   const [error, setError] = useState<string>('');
+  const [errorCode, setErrorCode] = useState<FhevmErrorCode | null>(null);
 
   const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
-    setIsEncrypting(true);
     setError('');
+    setErrorCode(null);
 
     try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
+      if (options.worker) {
+        await client.ready();
+      }
+      const result = await client.createEncryptedInput(contractAddress, userAddress, value);
       return result;
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encryption failed');
-      throw err;
-    } finally {
-      setIsEncrypting(false);
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError.message);
+      setErrorCode(fhevmError.code);
+      throw fhevmError;
     }
-  }, []);
+  }, [client, options.worker]);
 
   return {
     encrypt,
     isEncrypting,
     error,
+    errorCode,
   };
 }
 
@@ -2,37 +2,29 @@
  * Wagmi-like hook for FHEVM instance
  */
 
-import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import { useCallback } from 'react';
+import { initializeFheInstance, getFheInstance, getLogger } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
 
 export function useFhevm() {
-  const [instance, setInstance] = useState<any>(null);
-  const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
-  const [error, setError] = useState<string>('');
+  const { status, error } = useFhevmStore();
 
   const initialize = useCallback(async () => {
-    setStatus('loading');
-    setError('');
-
     try {
-      const fheInstance = await initializeFheInstance();
-      setInstance(fheInstance);
-      setStatus('ready');
-      console.log('✅ FHEVM initialized');
+      await initializeFheInstance();
+      getLogger().info('FHEVM initialized');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
-      setStatus('error');
-      console.error('❌ FHEVM initialization failed:', err);
+      // Status and error are already in the store
+      getLogger().error('FHEVM initialization failed', err);
     }
   }, []);
 
   return {
-    instance,
+    instance: status === 'ready' ? getFheInstance() : null,
     status,
-    error,
+    error: error?.message ?? '',
+    errorCode: error?.code ?? null,
     initialize,
     isInitialized: status === 'ready',
   };
 }
-
-
@@ -0,0 +1,10 @@
+/**
+ * React binding for the framework-agnostic FHEVM store
+ */
+
+import { useSyncExternalStore } from 'react';
+import { FhevmState, FhevmStore, getFhevmStore } from '../core/index.js';
+
+export function useFhevmStore(store: FhevmStore = getFhevmStore()): FhevmState {
+  return useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+}
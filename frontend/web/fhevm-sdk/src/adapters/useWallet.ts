@@ -2,14 +2,13 @@
  * Wagmi-like hook for wallet connection
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useCallback, useEffect } from 'react';
+import { getFhevmStore, getLogger, INITIAL_WALLET_STATE } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
 
 export function useWallet() {
-  const [address, setAddress] = useState<string>('');
-  const [isConnected, setIsConnected] = useState(false);
-  const [chainId, setChainId] = useState<number>(0);
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [error, setError] = useState<string>('');
+  const store = getFhevmStore();
+  const { address, isConnected, chainId, isConnecting, error } = useFhevmStore(store).wallet;
 
   // Listen for chain changes
   useEffect(() => {
@@ -17,18 +16,16 @@ export function useWallet() {
 
     const handleChainChanged = async (chainIdHex: string) => {
       const newChainId = parseInt(chainIdHex, 16);
-      setChainId(newChainId);
-      console.log('🔄 Chain changed to:', newChainId);
+      store.setWallet({ chainId: newChainId });
+      getLogger().debug('Chain changed', newChainId);
     };
 
     const handleAccountsChanged = (accounts: string[]) => {
       if (accounts.length === 0) {
         // User disconnected
-        setAddress('');
-        setIsConnected(false);
-        setChainId(0);
+        store.setWallet({ address: '', isConnected: false, chainId: 0 });
       } else {
-        setAddress(accounts[0]);
+        store.setWallet({ address: accounts[0] });
       }
     };
 
@@ -39,42 +36,37 @@ export function useWallet() {
       window.ethereum?.removeListener('chainChanged', handleChainChanged);
       window.ethereum?.removeListener('accountsChanged', handleAccountsChanged);
     };
-  }, []);
+  }, [store]);
 
   const connect = useCallback(async () => {
     if (!window.ethereum) {
-      setError('MetaMask not found. Please install MetaMask.');
+      store.setWallet({ error: 'MetaMask not found. Please install MetaMask.' });
       return;
     }
 
-    setIsConnecting(true);
-    setError('');
+    store.setWallet({ isConnecting: true, error: '' });
 
     try {
       const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
       const account = accounts[0];
-      setAddress(account);
-      setIsConnected(true);
+      store.setWallet({ address: account, isConnected: true });
 
       const chainId = await window.ethereum.request({ method: 'eth_chainId' });
-      setChainId(parseInt(chainId, 16));
+      store.setWallet({ chainId: parseInt(chainId, 16) });
 
-      console.log('✅ Wallet connected:', account);
+      getLogger().info('Wallet connected');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Connection failed');
-      console.error('❌ Wallet connection failed:', err);
+      store.setWallet({ error: err instanceof Error ? err.message : 'Connection failed' });
+      getLogger().error('Wallet connection failed', err);
     } finally {
-      setIsConnecting(false);
+      store.setWallet({ isConnecting: false });
     }
-  }, []);
+  }, [store]);
 
   const disconnect = useCallback(() => {
-    setAddress('');
-    setIsConnected(false);
-    setChainId(0);
-    setError('');
-    console.log('🔌 Wallet disconnected');
-  }, []);
+    store.setWallet(INITIAL_WALLET_STATE);
+    getLogger().info('Wallet disconnected');
+  }, [store]);
 
   return {
     address,
@@ -86,6 +78,3 @@ export function useWallet() {
     disconnect,
   };
 }
-
-
-
@@ -0,0 +1,13 @@
+/**
+ * Vue Adapter - Universal FHEVM SDK
+ * Vue 3 composables with the same state and methods as the React hooks
+ *
+ * Import from '@fhevm-sdk/vue' so React apps never load Vue.
+ */
+
+export { useWallet } from './useWallet.js';
+export { useFhevm } from './useFhevm.js';
+export { useContract } from './useContract.js';
+export { useDecrypt } from './useDecrypt.js';
+export { useEncrypt } from './useEncrypt.js';
+export { useFhevmStore } from './useFhevmStore.js';
@@ -0,0 +1,42 @@
+/**
+ * Vue composable for contract interactions
+ */
+
+import { onMounted, ref, shallowRef, unref, watch, Ref } from 'vue';
+import { ethers } from 'ethers';
+
+/**
+ * `address` and `abi` can be refs - the contract is rebuilt when either changes
+ */
+export function useContract(address: string | Ref<string>, abi: any[] | Ref<any[]>) {
+  // Shallow - a deep proxy would break the contract's private fields
+  const contract = shallowRef<ethers.Contract | null>(null);
+  const isReady = ref(false);
+  const error = ref('');
+
+  const build = ([currentAddress, currentAbi]: readonly [string, any[]]) => {
+    contract.value = null;
+    isReady.value = false;
+    error.value = '';
+    if (!window.ethereum || !currentAddress || !currentAbi) return;
+
+    try {
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      contract.value = new ethers.Contract(currentAddress, currentAbi, provider);
+      isReady.value = true;
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Contract setup failed';
+    }
+  };
+
+  // Mounted only, like the React hook's effect - there is no wallet during SSR
+  onMounted(() => {
+    watch(() => [unref(address), unref(abi)] as const, build, { immediate: true });
+  });
+
+  return {
+    contract,
+    isReady,
+    error,
+  };
+}
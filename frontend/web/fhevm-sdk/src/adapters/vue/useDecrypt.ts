@@ -0,0 +1,43 @@
+/**
+ * Vue composable for decryption operations - FHE v0.9
+ */
+
+import { ref, computed } from 'vue';
+import { decryptAndVerify, toFhevmError, FhevmErrorCode, isOperationPending } from '../../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
+
+export function useDecrypt() {
+  const state = useFhevmStore();
+  // The store sees public decryptions from anywhere; the verification transaction is only known here
+  const isVerifying = ref(false);
+  const error = ref('');
+  const errorCode = ref<FhevmErrorCode | null>(null);
+
+  const verifyDecryption = async (
+    handles: string[],
+    contractAddress: string,
+    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
+  ) => {
+    isVerifying.value = true;
+    error.value = '';
+    errorCode.value = null;
+
+    try {
+      return await decryptAndVerify(handles, verifyFunction);
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      error.value = fhevmError.message;
+      errorCode.value = fhevmError.code;
+      throw fhevmError;
+    } finally {
+      isVerifying.value = false;
+    }
+  };
+
+  return {
+    verifyDecryption,
+    isDecrypting: computed(() => isVerifying.value || isOperationPending(state.value, 'publicDecrypt')),
+    error,
+    errorCode,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Vue composable for encryption operations
+ */
+
+import { ref, computed } from 'vue';
+import {
+  getDefaultFhevmClient,
+  getWorkerFhevmClient,
+  toFhevmError,
+  FhevmErrorCode,
+  isOperationPending,
+} from '../../core/index.js';
+import type { UseEncryptOptions } from '../useEncrypt.js';
+import { useFhevmStore } from './useFhevmStore.js';
+
+export function useEncrypt(options: UseEncryptOptions = {}) {
+  const client = options.worker ? getWorkerFhevmClient() : getDefaultFhevmClient();
+  const state = useFhevmStore(client.store);
+  const error = ref('');
+  const errorCode = ref<FhevmErrorCode | null>(null);
+
+  const encrypt = async (contractAddress: string, userAddress: string, value: number) => {
+    error.value = '';
+    errorCode.value = null;
+
+    try {
+      if (options.worker) {
+        await client.ready();
+      }
+      return await client.createEncryptedInput(contractAddress, userAddress, value);
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      error.value = fhevmError.message;
+      errorCode.value = fhevmError.code;
+      throw fhevmError;
+    }
+  };
+
+  return {
+    encrypt,
+    isEncrypting: computed(() => isOperationPending(state.value, 'encrypt')),
+    error,
+    errorCode,
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Vue composable for FHEVM instance
+ */
+
+import { computed } from 'vue';
+import { initializeFheInstance, getFheInstance, getLogger } from '../../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
+
+export function useFhevm() {
+  const state = useFhevmStore();
+
+  const status = computed(() => state.value.status);
+  const isInitialized = computed(() => state.value.status === 'ready');
+
+  const initialize = async () => {
+    try {
+      await initializeFheInstance();
+      getLogger().info('FHEVM initialized');
+    } catch (err) {
+      // Status and error are already in the store
+      getLogger().error('FHEVM initialization failed', err);
+    }
+  };
+
+  return {
+    instance: computed(() => (isInitialized.value ? getFheInstance() : null)),
+    status,
+    error: computed(() => state.value.error?.message ?? ''),
+    errorCode: computed(() => state.value.error?.code ?? null),
+    initialize,
+    isInitialized,
+  };
+}
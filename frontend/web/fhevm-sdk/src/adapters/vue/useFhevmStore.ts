@@ -0,0 +1,18 @@
+/**
+ * Vue binding for the framework-agnostic FHEVM store
+ */
+
+import { ref, onUnmounted } from 'vue';
+import { FhevmStore, getFhevmStore } from '../../core/index.js';
+
+/**
+ * Reactive snapshot of the store - unsubscribes when the component unmounts
+ */
+export function useFhevmStore(store: FhevmStore = getFhevmStore()) {
+  const state = ref(store.getSnapshot());
+  const unsubscribe = store.subscribe(snapshot => {
+    state.value = snapshot;
+  });
+  onUnmounted(unsubscribe);
+  return state;
+}
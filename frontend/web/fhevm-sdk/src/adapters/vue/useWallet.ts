@@ -0,0 +1,78 @@
+/**
+ * Vue composable for wallet connection
+ */
+
+import { computed, onMounted, onUnmounted } from 'vue';
+import { getFhevmStore, getLogger, INITIAL_WALLET_STATE } from '../../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
+
+export function useWallet() {
+  const store = getFhevmStore();
+  const state = useFhevmStore(store);
+
+  const handleChainChanged = (chainIdHex: string) => {
+    const newChainId = parseInt(chainIdHex, 16);
+    store.setWallet({ chainId: newChainId });
+    getLogger().debug('Chain changed', newChainId);
+  };
+
+  const handleAccountsChanged = (accounts: string[]) => {
+    if (accounts.length === 0) {
+      // User disconnected
+      store.setWallet({ address: '', isConnected: false, chainId: 0 });
+    } else {
+      store.setWallet({ address: accounts[0] });
+    }
+  };
+
+  // Listen for chain and account changes while the component is mounted - never
+  // during setup, which also runs on the server
+  onMounted(() => {
+    window.ethereum?.on('chainChanged', handleChainChanged);
+    window.ethereum?.on('accountsChanged', handleAccountsChanged);
+  });
+
+  onUnmounted(() => {
+    window.ethereum?.removeListener('chainChanged', handleChainChanged);
+    window.ethereum?.removeListener('accountsChanged', handleAccountsChanged);
+  });
+
+  const connect = async () => {
+    if (!window.ethereum) {
+      store.setWallet({ error: 'MetaMask not found. Please install MetaMask.' });
+      return;
+    }
+
+    store.setWallet({ isConnecting: true, error: '' });
+
+    try {
+      const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
+      store.setWallet({ address: accounts[0], isConnected: true });
+
+      const chainId = await window.ethereum.request({ method: 'eth_chainId' });
+      store.setWallet({ chainId: parseInt(chainId, 16) });
+
+      getLogger().info('Wallet connected');
+    } catch (err) {
+      store.setWallet({ error: err instanceof Error ? err.message : 'Connection failed' });
+      getLogger().error('Wallet connection failed', err);
+    } finally {
+      store.setWallet({ isConnecting: false });
+    }
+  };
+
+  const disconnect = () => {
+    store.setWallet(INITIAL_WALLET_STATE);
+    getLogger().info('Wallet disconnected');
+  };
+
+  return {
+    address: computed(() => state.value.wallet.address),
+    isConnected: computed(() => state.value.wallet.isConnected),
+    chainId: computed(() => state.value.wallet.chainId),
+    isConnecting: computed(() => state.value.wallet.isConnecting),
+    error: computed(() => state.value.wallet.error),
+    connect,
+    disconnect,
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * FHEVM ACL Pre-flight - Universal SDK
+ * Reads the ACL contract so callers know what is decryptable before any signature
+ */
+
+import { ethers } from 'ethers';
+import { IACL__factory } from '../typechain/factories/IACL__factory.js';
+import type { HandleContractPair } from './decryptionSession.js';
+
+export interface HandleAccess {
+  handle: string;
+  contractAddress: string;
+  /** ACL.isAllowed(handle, user) */
+  userAllowed: boolean;
+  /** ACL.isAllowed(handle, contract) */
+  contractAllowed: boolean;
+  /** Both the user and the contract are allowed */
+  decryptable: boolean;
+}
+
+export interface DecryptAccessReport {
+  userAddress: string;
+  /** Per-handle result, keyed by handle */
+  handles: Record<string, HandleAccess>;
+  decryptable: string[];
+  denied: string[];
+  allDecryptable: boolean;
+}
+
+export interface PublicDecryptAccessReport {
+  /** ACL.isAllowedForDecryption(handle), keyed by handle */
+  handles: Record<string, boolean>;
+  decryptable: string[];
+  denied: string[];
+  allDecryptable: boolean;
+}
+
+/**
+ * Check user decryption rights - the relayer requires both the user and
+ * the contract to be allowed on every handle
+ */
+export async function queryDecryptAccess(
+  runner: ethers.ContractRunner,
+  aclAddress: string,
+  handleContractPairs: HandleContractPair[],
+  userAddress: string
+): Promise<DecryptAccessReport> {
+  const acl = IACL__factory.connect(aclAddress, runner);
+
+  // The same (handle, account) pair is only asked once
+  const lookups = new Map<string, Promise<boolean>>();
+  const isAllowed = (handle: string, account: string) => {
+    const key = `${handle}:${account}`.toLowerCase();
+    if (!lookups.has(key)) {
+      lookups.set(key, acl.isAllowed(handle, account));
+    }
+    return lookups.get(key)!;
+  };
+
+  const results = await Promise.all(
+    handleContractPairs.map(async ({ handle, contractAddress }): Promise<HandleAccess> => {
+      const [userAllowed, contractAllowed] = await Promise.all([
+        isAllowed(handle, userAddress),
+        isAllowed(handle, contractAddress),
+      ]);
+      return { handle, contractAddress, userAllowed, contractAllowed, decryptable: userAllowed && contractAllowed };
+    })
+  );
+
+  const handles: Record<string, HandleAccess> = {};
+  for (const access of results) {
+    handles[access.handle] = access;
+  }
+
+  const decryptable = results.filter(access => access.decryptable).map(access => access.handle);
+  const denied = results.filter(access => !access.decryptable).map(access => access.handle);
+
+  return { userAddress, handles, decryptable, denied, allDecryptable: denied.length === 0 };
+}
+
+/**
+ * Check which handles were made publicly decryptable
+ */
+export async function queryPublicDecryptAccess(
+  runner: ethers.ContractRunner,
+  aclAddress: string,
+  handles: string[]
+): Promise<PublicDecryptAccessReport> {
+  const acl = IACL__factory.connect(aclAddress, runner);
+
+  const allowed = await Promise.all(handles.map(handle => acl.isAllowedForDecryption(handle)));
+
+  const report: Record<string, boolean> = {};
+  handles.forEach((handle, i) => {
+    report[handle] = allowed[i];
+  });
+
+  const decryptable = handles.filter(handle => report[handle]);
+  const denied = handles.filter(handle => !report[handle]);
+
+  return { handles: report, decryptable, denied, allDecryptable: denied.length === 0 };
+}
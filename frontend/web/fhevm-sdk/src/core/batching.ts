@@ -0,0 +1,84 @@
+/**
+ * FHEVM Batching - Universal SDK
+ * Splits large relayer requests into chunks run with bounded concurrency
+ */
+
+import { AbortedError } from './errors.js';
+
+export interface BatchProgress {
+  /** Items finished so far */
+  completed: number;
+  total: number;
+  /** Chunks finished so far */
+  chunksCompleted: number;
+  chunks: number;
+}
+
+export interface BatchOptions {
+  /** Maximum items per relayer request (default 20) */
+  chunkSize?: number;
+  /** Maximum relayer requests in flight (default 3) */
+  concurrency?: number;
+  /** Called after each chunk completes */
+  onProgress?: (progress: BatchProgress) => void;
+  /** Cancels the batch - no new chunk starts and in-flight retries stop */
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_CHUNK_SIZE = 20;
+export const DEFAULT_CONCURRENCY = 3;
+
+export function chunkArray<T>(items: T[], size: number): T[][] {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new RangeError(`Chunk size must be a positive integer, got ${size}`);
+  }
+
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Run `worker` over chunks of `items`, at most `concurrency` at a time.
+ * Results are returned in chunk order so merging them gives the same map as one big call.
+ */
+export async function runChunked<T, R>(
+  items: T[],
+  worker: (chunk: T[], index: number) => Promise<R>,
+  options: BatchOptions = {}
+): Promise<R[]> {
+  const chunks = chunkArray(items, options.chunkSize ?? DEFAULT_CHUNK_SIZE);
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const results: R[] = new Array(chunks.length);
+
+  let next = 0;
+  let completed = 0;
+  let chunksCompleted = 0;
+  let failed = false;
+
+  const runLane = async () => {
+    // Stop picking up new chunks once any chunk has failed
+    while (next < chunks.length && !failed) {
+      if (options.signal?.aborted) {
+        failed = true;
+        throw new AbortedError('Batch aborted', { cause: options.signal.reason });
+      }
+      const index = next++;
+      try {
+        results[index] = await worker(chunks[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+
+      completed += chunks[index].length;
+      chunksCompleted++;
+      options.onProgress?.({ completed, total: items.length, chunksCompleted, chunks: chunks.length });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, runLane));
+  return results;
+}
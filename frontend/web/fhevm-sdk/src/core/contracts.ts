@@ -4,30 +4,372 @@
  */
 
 import { ethers } from 'ethers';
-import { createEncryptedInput } from './fhevm.js';
+import { FhevmClient, getDefaultFhevmClient } from './fhevm.js';
+import { EncryptedHandle, FheTypeName, fheTypeFromInternalType } from './fheTypes.js';
+import { InvalidInputError, MissingSignerError, toFhevmError } from './errors.js';
+import { EncryptedInputEnvelope, checkEncryptedInputEnvelope, deserializeEncryptedInput } from './inputEnvelope.js';
+import { decodeRevert, isCallException } from './revert.js';
 
-export class FhevmContract {
-  private contract: ethers.Contract;
+/**
+ * What FhevmContract needs from a typechain factory, e.g. UniversalFHEAdapter__factory
+ */
+export interface TypechainFactory<C extends ethers.BaseContract> {
+  readonly abi: readonly any[];
+  connect(address: string, runner?: ethers.ContractRunner | null): C;
+}
+
+/**
+ * Methods of a typechain contract
+ */
+export type FhevmContractMethod<C> = {
+  [K in keyof C]: C[K] extends { send(...args: any[]): Promise<ethers.ContractTransactionResponse> } ? K : never;
+}[keyof C] & string;
+
+/**
+ * A method by name, or one overload of it by full signature - `name(type,...)`
+ */
+export type FhevmContractMethodKey<C, K extends FhevmContractMethod<C>> = K | `${K}(${string})`;
+
+/**
+ * Plain value of an encrypted parameter, encrypted with the parameter's FHE type
+ */
+export type EncryptableValue = number | bigint | boolean | string;
+
+/**
+ * Arguments of a typechain method as encryptArgs takes them. Typechain types
+ * externalE* handles and the `bytes` input proof alike as BytesLike, so every
+ * BytesLike slot also takes a plain value, and the last one - the proof - is left
+ * out when an earlier one can hold a handle. Untyped contracts take any arguments.
+ */
+export type FhevmContractArgs<C, K extends FhevmContractMethod<C>> = C[K] extends { getFragment(...args: infer P): any }
+  ? EncryptableArgs<WithoutProof<WithoutTyped<WithoutOverrides<P, P>>>>
+  : unknown[];
+
+// Typechain's method args are `A | [...A, overrides]`, each arg also taking an ethers Typed
+type WithoutOverrides<M, P> = M extends any[] ? ([Extract<P, [...M, any]>] extends [never] ? never : M) : never;
+type WithoutTyped<A> = { [I in keyof A]: Exclude<A[I], ethers.Typed> };
+
+type IsBytesLike<T> = [T] extends [ethers.BytesLike] ? ([ethers.BytesLike] extends [T] ? true : false) : false;
+type HasBytesLike<A extends any[]> = true extends { [I in keyof A]: IsBytesLike<A[I]> }[number] ? true : false;
+type WithoutProof<A> = A extends [...infer Head, infer Last]
+  ? IsBytesLike<Last> extends true
+    ? (HasBytesLike<Head> extends true ? Head : A)
+    : [...WithoutProof<Head>, Last]
+  : A;
+type EncryptableArgs<A> = { [I in keyof A]: IsBytesLike<A[I]> extends true ? A[I] | EncryptableValue : A[I] };
+
+/**
+ * Events of a typechain contract, by name or signature
+ */
+export type FhevmContractEventName<C> = C extends { filters: infer F } ? Extract<keyof F, string> : string;
+
+/**
+ * A decoded contract event. Args typed as encrypted in the ABI (euint32, ebool, ...)
+ * come back as EncryptedHandle objects instead of bare bytes32 strings.
+ */
+export interface FhevmContractEvent {
+  name: string;
+  signature: string;
+  /** Args by name (by position when unnamed) */
+  args: Record<string, any>;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  log: ethers.EventLog;
+}
+
+export interface EncryptArgsOptions {
+  /**
+   * User the input is bound to (defaults to the contract runner's address, then the client
+   * signer's). Calls the adapter sends only take the sending account.
+   */
+  userAddress?: string;
+  signal?: AbortSignal;
+  /**
+   * Input encrypted ahead of time, e.g. on another machine - used instead of encrypting
+   * the values in `args`, once checked against the chain, contract, user and method
+   */
+  envelope?: EncryptedInputEnvelope | string;
+}
+
+/**
+ * Outcome of simulate() - what the UI shows before the wallet prompt
+ */
+export interface SimulationReport {
+  /** staticCall and estimateGas both passed */
+  ok: boolean;
+  method: string;
+  /** Signature of the overload that was simulated */
+  signature: string;
+  /** Full argument list with the encrypted handles and proof, reused by sendSimulated() */
+  args: unknown[];
+  /** Account the call was simulated from - the input is bound to it */
+  from: string;
+  /** Return value of the staticCall */
+  result?: unknown;
+  gasEstimate?: bigint;
+  /** Revert string, or the custom error with its args */
+  reason?: string;
+  /** Decoded custom error (or Error/Panic) of the revert */
+  revert?: { name: string; args: unknown[] };
+}
+
+/**
+ * Where a method takes encrypted handles and the proof shared by all of them
+ */
+interface EncryptedMethodLayout {
+  signature: string;
+  inputCount: number;
+  /** Parameter index and FHE type of each externalE* parameter */
+  encrypted: { index: number; type: FheTypeName }[];
+  /** Index of the `bytes` input proof parameter, -1 if the method has none */
+  proofIndex: number;
+}
+
+export class FhevmContract<C extends ethers.BaseContract = ethers.Contract> {
+  private contract: C;
   private address: string;
+  private client: FhevmClient;
+  /** By function signature */
+  private layouts: Map<string, EncryptedMethodLayout>;
+  private internalTypes: Map<string, string[]>;
 
-  constructor(contract: ethers.Contract, address: string) {
+  /**
+   * `abi` is the raw JSON ABI - ethers drops the internal types that mark encrypted parameters
+   */
+  constructor(contract: C, address: string, client: FhevmClient = getDefaultFhevmClient(), abi: readonly any[] = []) {
     this.contract = contract;
     this.address = address;
+    this.client = client;
+    this.layouts = readEncryptedLayouts(abi);
+    this.internalTypes = readInternalTypes(abi);
+  }
+
+  /**
+   * Wrap a deployed contract through its typechain factory
+   *
+   * @example
+   * const adapter = FhevmContract.fromFactory(UniversalFHEAdapter__factory, address, signer);
+   * await adapter.encryptAndSend('createBusinessData', [businessId, name, 50000, 1n, 2n, description]);
+   */
+  static fromFactory<C extends ethers.BaseContract>(
+    factory: TypechainFactory<C>,
+    address: string,
+    runner?: ethers.ContractRunner | null,
+    client?: FhevmClient
+  ) {
+    return new FhevmContract<C>(factory.connect(address, runner), address, client, factory.abi);
+  }
+
+  /**
+   * The typechain contract, for calls that need no encryption
+   */
+  get typed(): C {
+    return this.contract;
+  }
+
+  /**
+   * Build the full argument list of a method: plain values given for externalEuint*
+   * and externalEbool parameters are encrypted into one input, and its proof fills the
+   * method's `bytes` proof parameter, which is left out of `args`.
+   */
+  async encryptArgs<K extends FhevmContractMethod<C>>(
+    method: FhevmContractMethodKey<C, K>,
+    args: FhevmContractArgs<C, K>,
+    options: EncryptArgsOptions = {}
+  ): Promise<unknown[]> {
+    const layout = this.resolveLayout(method, args.length);
+
+    const fullArgs: unknown[] = [...args];
+    if (layout.proofIndex >= 0) {
+      fullArgs.splice(layout.proofIndex, 0, '0x');
+    }
+    if (layout.encrypted.length === 0) {
+      return fullArgs;
+    }
+    if (layout.proofIndex < 0) {
+      throw new InvalidInputError(`${layout.signature} takes encrypted values but no bytes input proof`);
+    }
+
+    const userAddress = options.userAddress ?? await this.userAddress();
+    const { handles, inputProof } = options.envelope
+      ? await this.openEnvelope(layout, options.envelope, userAddress)
+      : await this.buildInput(layout, fullArgs, userAddress).encrypt({ signal: options.signal });
+
+    layout.encrypted.forEach(({ index }, position) => {
+      fullArgs[index] = handles[position];
+    });
+    fullArgs[layout.proofIndex] = inputProof;
+    return fullArgs;
+  }
+
+  /**
+   * Encrypt the values of a method's encrypted parameters into an envelope, to be
+   * serialized and passed back as the `envelope` option when the call is sent.
+   * Values of the other parameters are ignored.
+   *
+   * @example
+   * const json = serializeEncryptedInput(await adapter.encryptToEnvelope('createBusinessData', args, { userAddress }));
+   * // later, from userAddress
+   * await adapter.encryptAndSend('createBusinessData', args, { envelope: json });
+   */
+  async encryptToEnvelope<K extends FhevmContractMethod<C>>(
+    method: FhevmContractMethodKey<C, K>,
+    args: FhevmContractArgs<C, K>,
+    options: EncryptArgsOptions = {}
+  ): Promise<EncryptedInputEnvelope> {
+    const layout = this.resolveLayout(method, args.length);
+    if (layout.encrypted.length === 0) {
+      throw new InvalidInputError(`${layout.signature} takes no encrypted values`);
+    }
+
+    const fullArgs: unknown[] = [...args];
+    fullArgs.splice(layout.proofIndex, 0, '0x');
+    const userAddress = options.userAddress ?? await this.userAddress();
+    return this.buildInput(layout, fullArgs, userAddress).encryptToEnvelope({ signal: options.signal });
+  }
+
+  /**
+   * Encrypt the plain values of a method's encrypted parameters and send the transaction
+   */
+  async encryptAndSend<K extends FhevmContractMethod<C>>(
+    method: FhevmContractMethodKey<C, K>,
+    args: FhevmContractArgs<C, K>,
+    overrides?: ethers.Overrides & EncryptArgsOptions
+  ): Promise<ethers.ContractTransactionResponse> {
+    const { userAddress, signal, envelope, ...txOverrides } = overrides ?? {};
+    const from = await this.senderAddress(userAddress);
+    const fullArgs = await this.encryptArgs(method, args, { userAddress: from, signal, envelope });
+    const signature = this.resolveLayout(method, args.length).signature;
+    return this.contract.getFunction(signature).send(...fullArgs, txOverrides);
+  }
+
+  /**
+   * Encrypt the arguments, then dry-run the call with staticCall and estimateGas -
+   * no wallet prompt, no gas. Reverts are decoded from the contract ABI and the FHEVM
+   * host contract errors (e.g. an input proof bound to another user or contract).
+   * RPC failures are thrown.
+   */
+  async simulate<K extends FhevmContractMethod<C>>(
+    method: FhevmContractMethodKey<C, K>,
+    args: FhevmContractArgs<C, K>,
+    overrides?: ethers.Overrides & EncryptArgsOptions
+  ): Promise<SimulationReport> {
+    const { userAddress, signal, envelope, ...txOverrides } = overrides ?? {};
+    const from = await this.senderAddress(userAddress);
+    const fullArgs = await this.encryptArgs(method, args, { userAddress: from, signal, envelope });
+    const signature = this.resolveLayout(method, args.length).signature;
+    const fn = this.contract.getFunction(signature);
+    const callOverrides = { ...txOverrides, from };
+
+    const report: SimulationReport = { ok: false, method, signature, args: fullArgs, from };
+    try {
+      report.result = await fn.staticCall(...fullArgs, callOverrides);
+      report.gasEstimate = await fn.estimateGas(...fullArgs, callOverrides);
+      report.ok = true;
+    } catch (error) {
+      if (!isCallException(error)) {
+        throw toFhevmError(error);
+      }
+      Object.assign(report, decodeRevert(error, [this.contract.interface]));
+    }
+    return report;
+  }
+
+  /**
+   * Send a simulated call with the same encrypted input. The gas limit defaults to
+   * the estimate plus 20%.
+   */
+  async sendSimulated(report: SimulationReport, overrides: ethers.Overrides = {}): Promise<ethers.ContractTransactionResponse> {
+    if (!report.ok) {
+      throw new InvalidInputError(`${report.method} would revert: ${report.reason}`);
+    }
+    const gasLimit = overrides.gasLimit ?? (report.gasEstimate !== undefined ? (report.gasEstimate * 120n) / 100n : undefined);
+    return this.contract.getFunction(report.signature).send(...report.args, { ...overrides, gasLimit });
+  }
+
+  /**
+   * encryptAndSend, then wait for the receipt
+   */
+  async encryptAndSendAndWait<K extends FhevmContractMethod<C>>(
+    method: FhevmContractMethodKey<C, K>,
+    args: FhevmContractArgs<C, K>,
+    overrides?: ethers.Overrides & EncryptArgsOptions
+  ): Promise<ethers.TransactionReceipt> {
+    const tx = await this.encryptAndSend(method, args, overrides);
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error("Transaction receipt is null");
+    }
+    return receipt;
+  }
+
+  /**
+   * Call a view method. Returned handles come back as EncryptedHandle objects;
+   * several return values come back as an array.
+   */
+  async read<K extends FhevmContractMethod<C>>(method: K, ...args: unknown[]): Promise<any> {
+    const fn = this.contract.getFunction(method);
+    const result = await fn.staticCallResult(...args);
+    const fragment = fn.fragment;
+    const values = fragment.outputs.map((output, index) =>
+      decodeHandles(result[index], output, this.internalTypes.get(`function ${fragment.format()}`)?.[index])
+    );
+    return values.length === 1 ? values[0] : values;
+  }
+
+  /**
+   * Listen for an event. Returns the unsubscribe function.
+   *
+   * @example
+   * const stop = adapter.on('BusinessDataCreated', event => console.log(event.args.creator));
+   */
+  on<K extends FhevmContractEventName<C>>(
+    eventName: K,
+    handler: (event: FhevmContractEvent) => void
+  ): () => void {
+    const listener = (...listenerArgs: any[]) => {
+      const payload = listenerArgs[listenerArgs.length - 1] as ethers.ContractEventPayload;
+      handler(this.toEvent(payload.log));
+    };
+    void this.contract.on(eventName, listener);
+    return () => {
+      void this.contract.off(eventName, listener);
+    };
+  }
+
+  /**
+   * Past occurrences of an event, oldest first
+   */
+  async queryEvents<K extends FhevmContractEventName<C>>(
+    eventName: K,
+    fromBlock?: ethers.BlockTag,
+    toBlock?: ethers.BlockTag
+  ): Promise<FhevmContractEvent[]> {
+    const logs = await this.contract.queryFilter(eventName, fromBlock, toBlock);
+    return logs
+      .filter((log): log is ethers.EventLog => 'fragment' in log)
+      .map(log => this.toEvent(log));
   }
 
   /**
    * Encrypt and call contract function
+   *
+   * @deprecated Passes `encryptedData, proof` first whatever the ABI says - use encryptAndSend
    */
   async encryptAndCall(
     functionName: string,
     encryptedParams: any,
     ...additionalParams: any[]
   ): Promise<ethers.ContractTransactionResponse> {
-    return this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
+    return (this.contract as any)[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
   }
 
   /**
    * Encrypt and call with wait
+   *
+   * @deprecated Use encryptAndSendAndWait
    */
   async encryptAndCallAndWait(
     functionName: string,
@@ -46,8 +388,190 @@ export class FhevmContract {
    * Create encrypted input for contract
    */
   async createEncryptedInput(userAddress: string, value: number) {
-    return createEncryptedInput(this.address, userAddress, value);
+    return this.client.createEncryptedInput(this.address, userAddress, value);
+  }
+
+  private toEvent(log: ethers.EventLog): FhevmContractEvent {
+    const fragment = log.fragment;
+    const internalTypes = this.internalTypes.get(`event ${fragment.format()}`);
+    const args: Record<string, any> = {};
+    fragment.inputs.forEach((input, index) => {
+      args[input.name || String(index)] = decodeHandles(log.args[index], input, internalTypes?.[index]);
+    });
+
+    return {
+      name: fragment.name,
+      signature: fragment.format(),
+      args,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      log,
+    };
+  }
+
+  private buildInput(layout: EncryptedMethodLayout, fullArgs: unknown[], userAddress: string) {
+    const input = this.client.input(this.address, userAddress);
+    for (const { index, type } of layout.encrypted) {
+      input.add(type, fullArgs[index] as any);
+    }
+    return input;
+  }
+
+  /**
+   * Handles and proof of an envelope, once it is known to fit this call
+   */
+  private async openEnvelope(layout: EncryptedMethodLayout, envelope: EncryptedInputEnvelope | string, userAddress: string) {
+    const expected = {
+      chainId: await this.chainId(),
+      contractAddress: this.address,
+      userAddress,
+      types: layout.encrypted.map(({ type }) => type),
+    };
+    const opened = typeof envelope === 'string'
+      ? deserializeEncryptedInput(envelope, expected)
+      : checkEncryptedInputEnvelope(envelope, expected);
+    return { handles: opened.handles.map(({ handle }) => handle), inputProof: opened.inputProof };
+  }
+
+  /**
+   * Chain the contract is called on - the runner's, else the client's
+   */
+  private async chainId(): Promise<number> {
+    const provider = this.contract.runner?.provider;
+    const chainId = provider ? Number((await provider.getNetwork()).chainId) : this.client.getNetwork()?.chainId;
+    if (chainId === undefined) {
+      throw new InvalidInputError('Cannot check the chain of the encrypted input: the contract runner has no provider and the client is not initialized');
+    }
+    return chainId;
+  }
+
+  private async userAddress(): Promise<string> {
+    const signer = (this.contract.runner as any)?.getAddress ? this.contract.runner : this.client.getSigner();
+    if (!signer) throw new MissingSignerError();
+    return (signer as any).getAddress();
+  }
+
+  /**
+   * Account a call is sent from - the input is bound to it, so another user is refused
+   */
+  private async senderAddress(userAddress?: string): Promise<string> {
+    const sender = await this.userAddress();
+    if (userAddress !== undefined && userAddress.toLowerCase() !== sender.toLowerCase()) {
+      throw new InvalidInputError(`Input for ${userAddress} cannot be sent from ${sender}`);
+    }
+    return sender;
+  }
+
+  /**
+   * Overload of `method` - a name or a full signature - taking `argCount` arguments
+   * besides the input proof
+   */
+  private resolveLayout(method: string, argCount: number): EncryptedMethodLayout {
+    const layouts = this.functionsNamed(method).map(fragment => {
+      const signature = fragment.format();
+      // Not in the raw ABI - nothing is known to be encrypted
+      return this.layouts.get(signature) ?? { signature, inputCount: fragment.inputs.length, encrypted: [], proofIndex: -1 };
+    });
+    if (layouts.length === 0) {
+      throw new InvalidInputError(`${method} is not a function of the contract`);
+    }
+
+    const layout = layouts.find(candidate => candidate.inputCount - (candidate.proofIndex >= 0 ? 1 : 0) === argCount);
+    if (!layout) {
+      const expected = layouts.map(candidate => candidate.inputCount - (candidate.proofIndex >= 0 ? 1 : 0)).join(' or ');
+      throw new InvalidInputError(`${method} expects ${expected} argument(s) besides the input proof, got ${argCount}`);
+    }
+    return layout;
+  }
+
+  /**
+   * Every overload of a bare name, or the one function of a signature
+   */
+  private functionsNamed(method: string): ethers.FunctionFragment[] {
+    const contractInterface = this.contract.interface;
+    if (method.includes('(')) {
+      let fragment: ethers.FunctionFragment | null;
+      try {
+        fragment = contractInterface.getFunction(method);
+      } catch (error) {
+        throw new InvalidInputError(`${method} is not a valid function signature`, { cause: error });
+      }
+      return fragment ? [fragment] : [];
+    }
+
+    const fragments: ethers.FunctionFragment[] = [];
+    contractInterface.forEachFunction(fragment => {
+      if (fragment.name === method) fragments.push(fragment);
+    });
+    return fragments;
   }
 }
 
+/**
+ * Find the encrypted parameters and the proof parameter of every function in a JSON ABI,
+ * keyed by signature
+ */
+function readEncryptedLayouts(abi: readonly any[]) {
+  const layouts = new Map<string, EncryptedMethodLayout>();
 
+  for (const item of abi) {
+    if (item?.type !== 'function') continue;
+
+    const inputs: any[] = item.inputs ?? [];
+    // Only externalE* parameters take fresh input - an euint* parameter is an existing handle
+    const encrypted = inputs.flatMap((input, index) => {
+      const type = String(input.internalType).startsWith('externalE') ? fheTypeFromInternalType(input.internalType) : null;
+      return type ? [{ index, type }] : [];
+    });
+
+    // Named like inputProof, else the first bytes after the encrypted values
+    let proofIndex = inputs.findIndex(input => input.type === 'bytes' && /proof/i.test(input.name ?? ''));
+    if (proofIndex < 0 && encrypted.length > 0) {
+      proofIndex = inputs.findIndex((input, index) => input.type === 'bytes' && index > encrypted[0].index);
+    }
+
+    const signature = ethers.FunctionFragment.from(item).format();
+    layouts.set(signature, {
+      signature,
+      inputCount: inputs.length,
+      encrypted,
+      proofIndex: encrypted.length > 0 ? proofIndex : -1,
+    });
+  }
+  return layouts;
+}
+
+/**
+ * Internal types of every event's inputs and every function's outputs, keyed by
+ * `event Name(types)` / `function name(types)`
+ */
+function readInternalTypes(abi: readonly any[]) {
+  const internalTypes = new Map<string, string[]>();
+  for (const item of abi) {
+    if (item?.type === 'event') {
+      internalTypes.set(`event ${ethers.EventFragment.from(item).format()}`, (item.inputs ?? []).map((input: any) => input.internalType));
+    } else if (item?.type === 'function') {
+      internalTypes.set(`function ${ethers.FunctionFragment.from(item).format()}`, (item.outputs ?? []).map((output: any) => output.internalType));
+    }
+  }
+  return internalTypes;
+}
+
+/**
+ * Wrap values whose internal type is an encrypted type, including arrays of them
+ */
+function decodeHandles(value: unknown, param: ethers.ParamType, internalType?: string): unknown {
+  if (param.isArray() && Array.isArray(value)) {
+    const elementType = internalType?.replace(/\[\d*\]$/, '');
+    return value.map(element => decodeHandles(element, param.arrayChildren, elementType));
+  }
+
+  const type = fheTypeFromInternalType(internalType);
+  if (type && typeof value === 'string') {
+    const handle: EncryptedHandle = { handle: value, type };
+    return handle;
+  }
+  return value;
+}
@@ -0,0 +1,177 @@
+/**
+ * FHEVM Decryption Sessions - Universal SDK
+ * One keypair and EIP-712 signature reused across user decryptions
+ */
+
+import { InvalidInputError, UserRejectedSignatureError, toFhevmError } from './errors.js';
+import { workerCallOptions } from './worker/workerInstance.js';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+export interface DecryptionSessionOptions {
+  /** Contracts the EIP-712 authorization covers */
+  contractAddresses: string[];
+  /** Signer that authorizes the session (ethers Signer) */
+  signer: any;
+  /** Validity window of the authorization in days (default 10) */
+  durationDays?: number;
+}
+
+export interface HandleContractPair {
+  handle: string;
+  contractAddress: string;
+}
+
+/**
+ * Keypair and signature of one wallet authorization
+ */
+interface SessionAuthorization {
+  keypair: { publicKey: string; privateKey: string };
+  signature: string;
+  userAddress: string;
+  startTimestamp: number;
+}
+
+/**
+ * User-decryption session. The keypair and signature are created lazily on first
+ * use and reused until they expire or the session is revoked.
+ */
+export class DecryptionSession {
+  readonly contractAddresses: string[];
+  readonly durationDays: number;
+
+  private instance: any;
+  private signer: any;
+  private authorization: SessionAuthorization | null = null;
+  private pending: Promise<SessionAuthorization> | null = null;
+  /** Bumped by revoke() so a signature still pending is not kept */
+  private generation = 0;
+
+  constructor(instance: any, options: DecryptionSessionOptions) {
+    if (options.contractAddresses.length === 0) {
+      throw new InvalidInputError('A decryption session needs at least one contract address.');
+    }
+    this.instance = instance;
+    this.signer = options.signer;
+    this.contractAddresses = [...options.contractAddresses];
+    this.durationDays = options.durationDays ?? 10;
+    if (!Number.isSafeInteger(this.durationDays) || this.durationDays <= 0) {
+      throw new InvalidInputError(`durationDays must be a positive integer, got ${options.durationDays}`);
+    }
+  }
+
+  /**
+   * Unix time (seconds) the authorization expires at, or 0 if not authorized yet
+   */
+  get expiresAt() {
+    return this.authorization ? this.authorization.startTimestamp + this.durationDays * SECONDS_PER_DAY : 0;
+  }
+
+  isValid(now = Math.floor(Date.now() / 1000)) {
+    return this.authorization !== null && now < this.expiresAt;
+  }
+
+  /**
+   * Whether the session was authorized for this contract
+   */
+  covers(contractAddress: string) {
+    return this.contractAddresses.some(address => address.toLowerCase() === contractAddress.toLowerCase());
+  }
+
+  /**
+   * Create the keypair and ask the wallet for the EIP-712 signature if needed
+   */
+  async authorize(): Promise<void> {
+    await this.currentAuthorization();
+  }
+
+  /**
+   * Forget the keypair and signature. The next decryption asks the wallet again,
+   * even if a signature is still pending now.
+   */
+  revoke() {
+    this.generation++;
+    this.authorization = null;
+    this.pending = null;
+  }
+
+  /**
+   * Decrypt handles owned by the session's contracts. The signal only cancels
+   * the relayer call - it does not interrupt a pending wallet prompt.
+   */
+  async userDecrypt(handleContractPairs: HandleContractPair[], options: { signal?: AbortSignal } = {}): Promise<Record<string, any>> {
+    for (const pair of handleContractPairs) {
+      if (!this.covers(pair.contractAddress)) {
+        throw new InvalidInputError(`Decryption session does not cover contract ${pair.contractAddress}.`);
+      }
+    }
+
+    // Held locally - a revoke() from here on only affects later calls
+    const { keypair, signature, userAddress, startTimestamp } = await this.currentAuthorization();
+
+    return this.instance.userDecrypt(
+      handleContractPairs,
+      keypair.privateKey,
+      keypair.publicKey,
+      signature.replace("0x", ""),
+      this.contractAddresses,
+      userAddress,
+      startTimestamp.toString(),
+      this.durationDays.toString(),
+      ...workerCallOptions(this.instance, options.signal)
+    );
+  }
+
+  private currentAuthorization(): Promise<SessionAuthorization> {
+    if (this.authorization && this.isValid()) {
+      return Promise.resolve(this.authorization);
+    }
+
+    // Concurrent callers share one wallet prompt
+    if (!this.pending) {
+      const generation = this.generation;
+      const pending: Promise<SessionAuthorization> = this.sign()
+        .then(authorization => {
+          if (generation === this.generation) {
+            this.authorization = authorization;
+          }
+          return authorization;
+        })
+        .finally(() => {
+          if (this.pending === pending) this.pending = null;
+        });
+      this.pending = pending;
+    }
+    return this.pending;
+  }
+
+  private async sign(): Promise<SessionAuthorization> {
+    // Awaited so a worker-backed instance works too
+    const keypair = await this.instance.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+
+    const eip712 = await this.instance.createEIP712(
+      keypair.publicKey,
+      this.contractAddresses,
+      startTimestamp.toString(),
+      this.durationDays.toString()
+    );
+
+    let signature: string;
+    try {
+      signature = await this.signer.signTypedData(
+        eip712.domain,
+        {
+          UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+        },
+        eip712.message
+      );
+    } catch (error) {
+      // Wallets without an action hint still rejected a signature here
+      const fhevmError = toFhevmError(error);
+      throw fhevmError.code === 'USER_REJECTED_TRANSACTION' ? new UserRejectedSignatureError({ cause: error }) : fhevmError;
+    }
+
+    return { keypair, signature, userAddress: await this.signer.getAddress(), startTimestamp };
+  }
+}
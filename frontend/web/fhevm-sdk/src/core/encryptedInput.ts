@@ -0,0 +1,192 @@
+/**
+ * FHEVM Encrypted Input Builder - Universal SDK
+ * Several typed values encrypted under a single input proof
+ */
+
+import { ethers } from 'ethers';
+import { FHE_TYPE_BITS, FheTypeName } from './fheTypes.js';
+import { InvalidInputError, toFhevmError } from './errors.js';
+import { EncryptedInputEnvelope, createEncryptedInputEnvelope } from './inputEnvelope.js';
+import { RetryPolicy, withRetry } from './retry.js';
+import { TelemetryHook, trackOperation } from './telemetry.js';
+import type { FhevmStore } from './store.js';
+import { workerCallOptions } from './worker/workerInstance.js';
+
+export interface EncryptedInputResult {
+  /** One bytes32 handle per added value, in insertion order */
+  handles: string[];
+  /** Encrypted type of each handle */
+  types: FheTypeName[];
+  /** Proof shared by every handle */
+  inputProof: string;
+}
+
+export interface EncryptedInputOptions {
+  /** Overrides of the `encrypt` retry policy */
+  retry?: Partial<RetryPolicy>;
+  onTelemetry?: TelemetryHook;
+  /** Network name reported in telemetry events */
+  network?: string;
+  /** Chain the input is bound to, recorded in envelopes */
+  chainId?: number;
+  /** Store the encryption shows up in as a pending operation */
+  store?: FhevmStore;
+}
+
+const RELAYER_METHODS: Record<FheTypeName, string> = {
+  ebool: 'addBool',
+  euint8: 'add8',
+  euint16: 'add16',
+  euint32: 'add32',
+  euint64: 'add64',
+  euint128: 'add128',
+  euint256: 'add256',
+  eaddress: 'addAddress',
+};
+
+/**
+ * Fluent builder over the relayer's encrypted input
+ *
+ * @example
+ * const { handles, inputProof } = await client.input(contract, user).bool(true).u32(50000).encrypt();
+ */
+export class EncryptedInputBuilder {
+  readonly contractAddress: string;
+  readonly userAddress: string;
+
+  private instance: any;
+  private options: EncryptedInputOptions;
+  private entries: { type: FheTypeName; value: boolean | bigint | string }[] = [];
+
+  constructor(instance: any, contractAddress: string, userAddress: string, options: EncryptedInputOptions = {}) {
+    this.instance = instance;
+    this.options = options;
+    this.contractAddress = contractAddress;
+    this.userAddress = userAddress;
+  }
+
+  /**
+   * Types added so far, in order
+   */
+  get types(): FheTypeName[] {
+    return this.entries.map(entry => entry.type);
+  }
+
+  bool(value: boolean) {
+    return this.add('ebool', value);
+  }
+
+  u8(value: number | bigint) {
+    return this.add('euint8', value);
+  }
+
+  u16(value: number | bigint) {
+    return this.add('euint16', value);
+  }
+
+  u32(value: number | bigint) {
+    return this.add('euint32', value);
+  }
+
+  u64(value: number | bigint) {
+    return this.add('euint64', value);
+  }
+
+  u128(value: number | bigint) {
+    return this.add('euint128', value);
+  }
+
+  u256(value: number | bigint) {
+    return this.add('euint256', value);
+  }
+
+  address(value: string) {
+    return this.add('eaddress', value);
+  }
+
+  /**
+   * Add a value of any type - checked against the type's range
+   */
+  add(type: FheTypeName, value: boolean | number | bigint | string) {
+    this.entries.push({ type, value: checkValue(type, value) });
+    return this;
+  }
+
+  /**
+   * Encrypt every added value and return the handles with one input proof
+   */
+  async encrypt(options: { signal?: AbortSignal } = {}): Promise<EncryptedInputResult> {
+    if (this.entries.length === 0) {
+      throw new InvalidInputError('Nothing to encrypt. Add at least one value.');
+    }
+
+    let result: any;
+    try {
+      // A fresh input per attempt - encryption is safe to repeat
+      const count = this.entries.length;
+      const run = () => trackOperation(this.options.onTelemetry, 'encrypt', () => withRetry('encrypt', attempt => {
+        const input = this.instance.createEncryptedInput(this.contractAddress, this.userAddress);
+        for (const entry of this.entries) {
+          input[RELAYER_METHODS[entry.type]](entry.value);
+        }
+        return input.encrypt(...workerCallOptions(this.instance, attempt));
+      }, { ...this.options.retry, signal: options.signal }), { count, network: this.options.network });
+
+      result = await (this.options.store ? this.options.store.trackOperation('encrypt', run, count) : run());
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+
+    return {
+      handles: result.handles.map((handle: Uint8Array | string) => ethers.hexlify(handle)),
+      types: this.types,
+      inputProof: ethers.hexlify(result.inputProof),
+    };
+  }
+
+  /**
+   * Encrypt, and wrap the result in an envelope that can be serialized and
+   * submitted later from another machine
+   */
+  async encryptToEnvelope(options: { signal?: AbortSignal } = {}): Promise<EncryptedInputEnvelope> {
+    if (this.options.chainId === undefined) {
+      throw new InvalidInputError('Unknown chain - create the input from an initialized client to build an envelope');
+    }
+    const result = await this.encrypt(options);
+    return createEncryptedInputEnvelope(result, {
+      chainId: this.options.chainId,
+      contractAddress: this.contractAddress,
+      userAddress: this.userAddress,
+    });
+  }
+}
+
+function checkValue(type: FheTypeName, value: boolean | number | bigint | string) {
+  if (type === 'ebool') {
+    if (typeof value !== 'boolean') {
+      throw new InvalidInputError(`ebool expects a boolean, got ${typeof value}`);
+    }
+    return value;
+  }
+
+  if (type === 'eaddress') {
+    if (typeof value !== 'string' || !ethers.isAddress(value)) {
+      throw new InvalidInputError(`eaddress expects an address, got ${String(value)}`);
+    }
+    return ethers.getAddress(value);
+  }
+
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new InvalidInputError(`${type} expects an integer, got ${value}`);
+  }
+  if (typeof value !== 'number' && typeof value !== 'bigint') {
+    throw new InvalidInputError(`${type} expects a number or bigint, got ${typeof value}`);
+  }
+
+  const bits = FHE_TYPE_BITS[type];
+  const amount = BigInt(value);
+  if (amount < 0n || amount >= 1n << BigInt(bits)) {
+    throw new InvalidInputError(`${value} is out of range for ${type} (0 to 2^${bits} - 1)`);
+  }
+  return amount;
+}
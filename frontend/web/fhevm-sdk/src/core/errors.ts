@@ -0,0 +1,193 @@
+/**
+ * FHEVM Errors - Universal SDK
+ * Error classes with stable codes so callers never have to parse messages
+ */
+
+export type FhevmErrorCode =
+  | 'FHEVM_NOT_INITIALIZED'
+  | 'UNSUPPORTED_NETWORK'
+  | 'MISSING_SIGNER'
+  | 'RELAYER_UNAVAILABLE'
+  | 'RELAYER_ERROR'
+  | 'USER_REJECTED_SIGNATURE'
+  | 'USER_REJECTED_TRANSACTION'
+  | 'INVALID_HANDLE'
+  | 'INVALID_INPUT'
+  | 'ACL_DENIED'
+  | 'PROOF_VERIFICATION_FAILED'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'WASM_INTEGRITY_FAILED'
+  | 'TRANSACTION_FAILED'
+  | 'UNKNOWN';
+
+/**
+ * Base class of every SDK error. `cause` holds the original error, if any.
+ */
+export class FhevmError extends Error {
+  readonly code: FhevmErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: FhevmErrorCode, message: string, options: { cause?: unknown } = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.cause = options.cause;
+  }
+}
+
+export class FhevmNotInitializedError extends FhevmError {
+  constructor(message = 'FHE instance not initialized. Call initializeFheInstance() first.', options?: { cause?: unknown }) {
+    super('FHEVM_NOT_INITIALIZED', message, options);
+  }
+}
+
+export class UnsupportedNetworkError extends FhevmError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('UNSUPPORTED_NETWORK', message, options);
+  }
+}
+
+export class MissingSignerError extends FhevmError {
+  constructor(message = 'No signer available. Pass a signer or set one with setSigner().', options?: { cause?: unknown }) {
+    super('MISSING_SIGNER', message, options);
+  }
+}
+
+export class RelayerUnavailableError extends FhevmError {
+  constructor(options?: { cause?: unknown }) {
+    super('RELAYER_UNAVAILABLE', 'Decryption service is temporarily unavailable. Please try again later.', options);
+  }
+}
+
+export class RelayerError extends FhevmError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('RELAYER_ERROR', message, options);
+  }
+}
+
+export class UserRejectedSignatureError extends FhevmError {
+  constructor(options?: { cause?: unknown }) {
+    super('USER_REJECTED_SIGNATURE', 'Signature request rejected by user', options);
+  }
+}
+
+export class UserRejectedTransactionError extends FhevmError {
+  constructor(options?: { cause?: unknown }) {
+    super('USER_REJECTED_TRANSACTION', 'Transaction rejected by user', options);
+  }
+}
+
+export class InvalidHandleError extends FhevmError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('INVALID_HANDLE', message, options);
+  }
+}
+
+export class InvalidInputError extends FhevmError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('INVALID_INPUT', message, options);
+  }
+}
+
+export class AclDeniedError extends FhevmError {
+  /** Handles the ACL refused, when known */
+  readonly deniedHandles: string[];
+
+  constructor(message: string, options: { cause?: unknown; deniedHandles?: string[] } = {}) {
+    super('ACL_DENIED', message, options);
+    this.deniedHandles = options.deniedHandles ?? [];
+  }
+}
+
+export class ProofVerificationError extends FhevmError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('PROOF_VERIFICATION_FAILED', message, options);
+  }
+}
+
+export class TimeoutError extends FhevmError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('TIMEOUT', message, options);
+  }
+}
+
+export class AbortedError extends FhevmError {
+  constructor(message = 'Operation aborted', options?: { cause?: unknown }) {
+    super('ABORTED', message, options);
+  }
+}
+
+export class WasmIntegrityError extends FhevmError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super('WASM_INTEGRITY_FAILED', message, options);
+  }
+}
+
+export class TransactionFailedError extends FhevmError {
+  /** Hash of the transaction that failed, was dropped or was replaced */
+  readonly hash: string;
+
+  constructor(message: string, options: { cause?: unknown; hash?: string } = {}) {
+    super('TRANSACTION_FAILED', message, options);
+    this.hash = options.hash ?? '';
+  }
+}
+
+export function isFhevmError(error: unknown, code?: FhevmErrorCode): error is FhevmError {
+  return error instanceof FhevmError && (code === undefined || error.code === code);
+}
+
+const SIGNING_ACTIONS = ['signMessage', 'signTypedData', 'requestAccess'];
+
+/**
+ * Map any error thrown by the relayer SDK, ethers or the wallet to an FhevmError.
+ * This is the only place that looks at message text.
+ */
+export function toFhevmError(error: unknown): FhevmError {
+  if (error instanceof FhevmError) return error;
+
+  const err = error as any;
+  const message: string = err?.shortMessage ?? err?.message ?? String(error);
+  const options = { cause: error };
+
+  if (err?.name === 'AbortError') {
+    return new AbortedError(message, options);
+  }
+
+  // Wallet rejections - ethers ACTION_REJECTED or raw EIP-1193 code 4001
+  if (err?.code === 'ACTION_REJECTED' || err?.code === 4001 || err?.error?.code === 4001) {
+    return SIGNING_ACTIONS.includes(err?.action)
+      ? new UserRejectedSignatureError(options)
+      : new UserRejectedTransactionError(options);
+  }
+  if (/user (rejected|denied)/i.test(message)) {
+    return /sign/i.test(message) && !/transaction/i.test(message)
+      ? new UserRejectedSignatureError(options)
+      : new UserRejectedTransactionError(options);
+  }
+
+  // Relayer SDK attaches { code, status } as the error cause
+  const relayerCause = err?.cause;
+  if (typeof relayerCause?.code === 'string' && relayerCause.code.startsWith('RELAYER_')) {
+    const status: number | undefined = relayerCause.status;
+    const unavailable = relayerCause.code === 'RELAYER_UNKNOWN_ERROR'
+      || (relayerCause.code === 'RELAYER_FETCH_ERROR' && (status === 429 || (status ?? 500) >= 500));
+    return unavailable ? new RelayerUnavailableError(options) : new RelayerError(message, options);
+  }
+  if (message.includes('Failed to fetch') || message.includes('NetworkError')) {
+    return new RelayerUnavailableError(options);
+  }
+
+  if (/not authorized to user decrypt|not allowed for public decryption/.test(message)) {
+    return new AclDeniedError(message, options);
+  }
+  if (/signers threshold is not reached|not in the list of (KMS|coprocessor) signers/.test(message)) {
+    return new ProofVerificationError(message, options);
+  }
+  if (/Handle .* is not of valid|Unsupported handle type|Unsupported Fhevm primitive type/.test(message)) {
+    return new InvalidHandleError(message, options);
+  }
+
+  return new FhevmError('UNKNOWN', message, options);
+}
@@ -0,0 +1,194 @@
+/**
+ * FHE Types - Universal SDK
+ * Encrypted types supported by FHEVM inputs and handles
+ */
+
+import { ethers } from 'ethers';
+import { InvalidHandleError } from './errors.js';
+
+export type FheTypeName =
+  | 'ebool'
+  | 'euint8'
+  | 'euint16'
+  | 'euint32'
+  | 'euint64'
+  | 'euint128'
+  | 'euint256'
+  | 'eaddress';
+
+/**
+ * Bit width of the clear value behind each encrypted type
+ */
+export const FHE_TYPE_BITS: Record<FheTypeName, number> = {
+  ebool: 1,
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  euint256: 256,
+  eaddress: 160,
+};
+
+/**
+ * FHE type ids as encoded in byte 30 of a ciphertext handle
+ */
+export const FHE_TYPE_IDS: Record<number, FheTypeName> = {
+  0: 'ebool',
+  2: 'euint8',
+  3: 'euint16',
+  4: 'euint32',
+  5: 'euint64',
+  6: 'euint128',
+  7: 'eaddress',
+  8: 'euint256',
+};
+
+/**
+ * Handle layout version this SDK understands, as encoded in byte 31 of a handle
+ */
+export const HANDLE_VERSION = 0;
+
+/**
+ * Index byte of handles computed on-chain, as opposed to user inputs
+ */
+const COMPUTED_HANDLE_INDEX = 0xff;
+
+/**
+ * Solidity type of the clear value, as checked by FHE.checkSignatures
+ */
+export const FHE_ABI_TYPES: Record<FheTypeName, string> = {
+  ebool: 'bool',
+  euint8: 'uint8',
+  euint16: 'uint16',
+  euint32: 'uint32',
+  euint64: 'uint64',
+  euint128: 'uint128',
+  euint256: 'uint256',
+  eaddress: 'address',
+};
+
+export type FheUintTypeName = Exclude<FheTypeName, 'ebool' | 'eaddress'>;
+
+/**
+ * Clear value of a decrypted handle, keyed by its encrypted type
+ */
+export type DecryptedValue =
+  | { type: 'ebool'; value: boolean }
+  | { type: 'eaddress'; value: string }
+  | { type: FheUintTypeName; value: bigint };
+
+/**
+ * A ciphertext handle with the encrypted type it refers to
+ */
+export interface EncryptedHandle {
+  handle: string;
+  type: FheTypeName;
+}
+
+/**
+ * Metadata embedded in a ciphertext handle:
+ * 21 bytes of hash | index | chain id (8 bytes) | FHE type | version
+ */
+export interface ParsedHandle extends EncryptedHandle {
+  chainId: number;
+  /** Position in the encrypted input, or null for handles computed on-chain */
+  index: number | null;
+  version: number;
+  /** Short label for logs and UI badges, e.g. `euint32 #0 @11155111 0x1a2b…9f00` */
+  label: string;
+}
+
+/**
+ * What a handle must match to be accepted
+ */
+export interface HandleExpectation {
+  /** Chain the handle must have been created on */
+  chainId?: number;
+  /** Accepted encrypted type(s) */
+  type?: FheTypeName | FheTypeName[];
+}
+
+/**
+ * Decode the metadata of a bytes32 handle, optionally checking its chain and type.
+ * Throws InvalidHandleError for malformed, uninitialized or mismatching handles.
+ */
+export function parseHandle(handle: string, expected: HandleExpectation = {}): ParsedHandle {
+  if (!ethers.isHexString(handle, 32)) {
+    throw new InvalidHandleError(`Invalid ciphertext handle: ${handle}`);
+  }
+  if (handle === ethers.ZeroHash) {
+    throw new InvalidHandleError('Uninitialized ciphertext handle (bytes32(0))');
+  }
+
+  const bytes = ethers.getBytes(handle);
+  const version = bytes[31];
+  if (version !== HANDLE_VERSION) {
+    throw new InvalidHandleError(`Unsupported handle version ${version} in handle ${handle}`);
+  }
+
+  const type = FHE_TYPE_IDS[bytes[30]];
+  if (!type) {
+    throw new InvalidHandleError(`Unsupported FHE type ${bytes[30]} in handle ${handle}`);
+  }
+
+  const chainId = Number(ethers.toBigInt(bytes.slice(22, 30)));
+  const index = bytes[21] === COMPUTED_HANDLE_INDEX ? null : bytes[21];
+  const label = `${type} ${index === null ? 'computed' : `#${index}`} @${chainId} ${handle.slice(0, 6)}…${handle.slice(-4)}`;
+
+  if (expected.chainId !== undefined && chainId !== expected.chainId) {
+    throw new InvalidHandleError(`Handle ${handle} belongs to chain ${chainId}, not ${expected.chainId}`);
+  }
+  const types = expected.type === undefined ? null : ([] as FheTypeName[]).concat(expected.type);
+  if (types && !types.includes(type)) {
+    throw new InvalidHandleError(`Handle ${handle} is an ${type}, expected ${types.join(' or ')}`);
+  }
+
+  return { handle, type, chainId, index, version, label };
+}
+
+/**
+ * FHE type named by a Solidity internal type - `euint32`, `externalEbool`, ... - or null
+ */
+export function fheTypeFromInternalType(internalType: string | undefined): FheTypeName | null {
+  const match = /^(?:externalE|e)(bool|uint(?:8|16|32|64|128|256)|address)$/.exec(internalType ?? '');
+  return match ? (`e${match[1]}` as FheTypeName) : null;
+}
+
+/**
+ * Read the encrypted type embedded in a bytes32 handle
+ */
+export function getHandleType(handle: string): FheTypeName {
+  return parseHandle(handle).type;
+}
+
+/**
+ * Convert a raw relayer clear value to a typed result for its handle
+ */
+export function toDecryptedValue(handle: string, clearValue: bigint | boolean | string | number): DecryptedValue {
+  const type = getHandleType(handle);
+
+  if (type === 'ebool') {
+    return { type, value: typeof clearValue === 'boolean' ? clearValue : BigInt(clearValue) !== 0n };
+  }
+
+  if (type === 'eaddress') {
+    const address = typeof clearValue === 'string' && ethers.isHexString(clearValue, 20)
+      ? clearValue
+      : ethers.zeroPadValue(ethers.toBeHex(BigInt(clearValue as any)), 20);
+    return { type, value: ethers.getAddress(address) };
+  }
+
+  return { type, value: BigInt(clearValue as any) };
+}
+
+/**
+ * ABI-encode clear values in handle order, each with the Solidity type of its handle
+ */
+export function abiEncodeClearValues(handles: string[], clearValues: Record<string, bigint | boolean | string | number>): string {
+  const values = handles.map(handle => toDecryptedValue(handle, clearValues[handle]));
+  return ethers.AbiCoder.defaultAbiCoder().encode(
+    values.map(value => FHE_ABI_TYPES[value.type]),
+    values.map(value => value.value)
+  );
+}
@@ -5,394 +5,1003 @@
  */
 
 import { ethers } from "ethers";
+import { NodeEip1193Provider } from './nodeProvider.js';
+import { DecryptionSession, HandleContractPair } from './decryptionSession.js';
+import { EncryptedInputBuilder } from './encryptedInput.js';
+import { DecryptedValue, FheTypeName, ParsedHandle, abiEncodeClearValues, parseHandle, toDecryptedValue } from './fheTypes.js';
+import { BatchOptions, runChunked } from './batching.js';
+import { queryDecryptAccess, queryPublicDecryptAccess } from './acl.js';
+import { queryProofVerification } from './proofs.js';
+import { RetryOperation, RetryPolicyOverrides, withRetry } from './retry.js';
+import { FhevmLogger, getLogger } from './logger.js';
+import { TelemetryHook, TelemetryOperation, trackOperation } from './telemetry.js';
+import { FhevmStore } from './store.js';
+import { WasmAssetOptions, initRelayerWasm } from './wasmAssets.js';
+import { WorkerRelayerInstance, workerCallOptions } from './worker/workerInstance.js';
+import { MockFhevmOptions, createMockFhevmInstance } from './mockInstance.js';
+import {
+  AclDeniedError,
+  FhevmNotInitializedError,
+  MissingSignerError,
+  ProofVerificationError,
+  RelayerError,
+  UnsupportedNetworkError,
+  toFhevmError,
+} from './errors.js';
+import { FhevmNetworkPreset, HARDHAT_NETWORK, SEPOLIA_NETWORK, getNetworkPreset, resolveNetworkPreset, toRelayerConfig } from './networks.js';
 
-let fheInstance: any = null;
+/**
+ * Options for an FhevmClient
+ */
+export interface FhevmClientOptions {
+  /** Network preset, or the chainId of a registered one (defaults to the wallet's chain, then Sepolia) */
+  network?: number | FhevmNetworkPreset;
+  /** RPC URL used by the Node.js instance (defaults to the preset's rpcUrl) */
+  rpcUrl?: string;
+  /** EIP-1193 provider (defaults to window.ethereum in the browser, a NodeEip1193Provider in Node.js) */
+  provider?: any;
+  /** Relayer config overrides merged on top of the network preset */
+  config?: Record<string, any>;
+  /** Default signer - used for EIP-712 user decryption and, in Node.js, to sign transactions */
+  signer?: any;
+  /** Validity window of user-decryption authorizations in days (default 10) */
+  decryptionDurationDays?: number;
+  /** Default chunking for large decryption batches */
+  batch?: BatchOptions;
+  /** Check the ACL before asking the wallet to sign a user decryption (default true) */
+  aclPreflight?: boolean;
+  /** Per-operation retry/timeout overrides on top of DEFAULT_RETRY_POLICIES */
+  retry?: RetryPolicyOverrides;
+  /** Logger for this client (defaults to the one set with setLogger(), silent unless set) */
+  logger?: FhevmLogger;
+  /** Receives a timing event after each init, encrypt, decrypt and proof check */
+  onTelemetry?: TelemetryHook;
+  /** Store the client reports its status and pending operations to (defaults to a new one) */
+  store?: FhevmStore;
+  /** CDN, local paths and SHA-256 pins of the relayer SDK WASM files (browser and browser worker) */
+  wasm?: WasmAssetOptions;
+  /** 'worker' runs the relayer instance in a Web Worker (browser) or worker_threads (Node.js) */
+  execution?: 'main' | 'worker';
+  /** Override the worker script location, e.g. when the bundler does not emit it */
+  workerUrl?: string | URL;
+  /** Use the in-memory mock instance instead of the relayer (no ACL pre-flight unless aclPreflight is set) */
+  mock?: boolean | MockFhevmOptions;
+}
+
+export interface DecryptOptions extends BatchOptions {
+  /** Compatibility flag - return Number(clearValue) like SDK versions before typed results */
+  legacyNumber?: boolean;
+}
+
+export interface ProofCheckOptions {
+  /** RPC of the chain to dry-run on, e.g. a local fork (defaults to the client's provider) */
+  rpcUrl?: string;
+  /** KMS verifier address (defaults to the network preset's) */
+  kmsContractAddress?: string;
+}
+
+export interface PublicDecryptOptions extends BatchOptions {
+  /** Return values without a KMS proof instead of throwing (they cannot be verified on-chain) */
+  allowUnverified?: boolean;
+}
+
+export interface PublicDecryptResultBase {
+  /** Clear values as returned by the relayer, keyed by handle */
+  clearValues: { [handle: string]: bigint | boolean | string };
+  /** Clear values typed by each handle's FHE type */
+  values: Record<string, DecryptedValue>;
+  /** Clear values ABI-encoded with the Solidity type of each handle, in handle order */
+  abiEncodedClearValues: string;
+}
 
 /**
- * Initialize FHEVM instance for browser environment
+ * Public decryption result - `verifiable` tells whether `decryptionProof` can be passed to
+ * FHE.checkSignatures together with `abiEncodedClearValues`
  */
-async function initializeBrowserFheInstance() {
-  if (typeof window === 'undefined' || !window.ethereum) {
-    throw new Error('Ethereum provider not found. Please install MetaMask or connect a wallet.');
+export type PublicDecryptResult =
+  | (PublicDecryptResultBase & { verifiable: true; decryptionProof: string })
+  | (PublicDecryptResultBase & { verifiable: false; decryptionProof: null });
+
+/**
+ * FHEVM client - owns one relayer instance, its chain config and signer.
+ * Create several clients to talk to several chains or deployments at once.
+ */
+export class FhevmClient {
+  private instance: any = null;
+  private network: FhevmNetworkPreset | null = null;
+  private provider: any = null;
+  private sessions = new Map<string, DecryptionSession>();
+  private options: FhevmClientOptions;
+  /** Options given to this client itself - a derived client layers them over its parent's */
+  private ownOptions: FhevmClientOptions;
+  private parent: FhevmClient | null = null;
+  private initializing: Promise<any> | null = null;
+
+  /** Observable status, network and pending operations of this client */
+  readonly store: FhevmStore;
+
+  constructor(options: FhevmClientOptions = {}) {
+    this.ownOptions = { ...options };
+    this.options = { ...options };
+    this.store = options.store ?? new FhevmStore();
+  }
+
+  /**
+   * A client with this client's options plus `overrides`, and its own instance and store.
+   * It picks up this client's options when it initializes, so it can be created early.
+   */
+  derive(overrides: FhevmClientOptions = {}) {
+    const client = new FhevmClient(overrides);
+    client.parent = this;
+    client.options = { ...this.inheritableOptions(), ...client.ownOptions };
+    return client;
+  }
+
+  /**
+   * Initialize the relayer instance - Environment-aware
+   */
+  async initialize(options?: FhevmClientOptions) {
+    if (options) {
+      this.ownOptions = { ...this.ownOptions, ...options };
+    }
+    this.options = this.parent ? { ...this.parent.inheritableOptions(), ...this.ownOptions } : { ...this.ownOptions };
+
+    // Sessions are bound to the previous instance's keys
+    this.revokeDecryptionSessions();
+    if (this.instance instanceof WorkerRelayerInstance) {
+      this.instance.terminate();
+      this.instance = null;
+    }
+
+    return this.track('init', async () => {
+      const provider = this.options.provider ?? (typeof window !== 'undefined' ? window.ethereum : undefined);
+
+      if (this.options.mock) {
+        // Offline - only ask the provider for the chain when one is given
+        this.network = this.options.network !== undefined || this.options.provider
+          ? await this.resolveNetwork(this.options.provider)
+          : HARDHAT_NETWORK;
+        this.provider = this.options.provider ?? null;
+        this.instance = this.createMockInstance();
+      } else if (typeof window !== 'undefined' && provider) {
+        // Browser environment - use existing working code
+        this.network = await this.resolveNetwork(provider);
+        this.provider = provider;
+        if (this.network.mockOnly) {
+          this.instance = this.createMockInstance();
+        } else {
+          this.instance = this.options.execution === 'worker'
+            ? await this.initializeWorkerInstance()
+            : await this.initializeBrowserInstance(provider);
+        }
+      } else {
+        // Node.js environment - use new functionality
+        this.network = await this.resolveNetwork(this.options.provider);
+        if (this.network.mockOnly) {
+          this.provider = this.options.provider ?? null;
+          this.instance = this.createMockInstance();
+        } else if (this.options.execution === 'worker') {
+          this.provider = this.options.provider ?? await this.createNodeProvider();
+          this.instance = await this.initializeWorkerInstance();
+        } else {
+          this.instance = await this.initializeNodeInstance();
+        }
+      }
+      this.store.setState({ network: this.network.name, chainId: this.network.chainId });
+      return this.instance;
+    });
+  }
+
+  getInstance() {
+    return this.instance;
+  }
+
+  /**
+   * The instance, initializing it first if needed - concurrent callers share one initialization
+   */
+  async ready() {
+    if (this.instance) return this.instance;
+    if (!this.initializing) {
+      this.initializing = this.initialize().finally(() => {
+        this.initializing = null;
+      });
+    }
+    return this.initializing;
+  }
+
+  get isInitialized() {
+    return this.instance !== null;
+  }
+
+  /**
+   * Network preset the instance was created for
+   */
+  getNetwork() {
+    return this.network;
+  }
+
+  /**
+   * EIP-1193 provider the instance talks to
+   */
+  getProvider() {
+    return this.provider;
+  }
+
+  getSigner() {
+    return this.options.signer;
+  }
+
+  setSigner(signer: any) {
+    this.ownOptions.signer = signer;
+    this.options.signer = signer;
   }
 
-  // Check for both uppercase and lowercase versions of RelayerSDK
-  let sdk = (window as any).RelayerSDK || (window as any).relayerSDK;
+  /**
+   * Pick the network preset - explicit option first, then the provider's chain
+   */
+  private async resolveNetwork(provider?: any): Promise<FhevmNetworkPreset> {
+    if (this.options.network !== undefined) {
+      return resolveNetworkPreset(this.options.network);
+    }
 
-  if (!sdk) {
-    throw new Error('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
+    if (provider) {
+      const chainId = parseInt(await provider.request({ method: 'eth_chainId' }), 16);
+      const preset = getNetworkPreset(chainId);
+      if (!preset) {
+        throw new UnsupportedNetworkError(`No FHEVM network preset for chain ${chainId}. Pass a network option or register a preset.`);
+      }
+      return preset;
+    }
+
+    return SEPOLIA_NETWORK;
   }
 
-  const { initSDK, createInstance, SepoliaConfig } = sdk;
+  /**
+   * Whether the instance is the in-memory mock - requested, or the only option on this chain
+   */
+  private get usesMock() {
+    return Boolean(this.options.mock || this.network?.mockOnly);
+  }
 
-  // Try to initialize SDK with CDN first (default behavior)
-  // If it fails (e.g., CORS error), fallback to local WASM files
-  try {
-    await initSDK(); // Try CDN first
-    console.log('✅ FHEVM SDK initialized with CDN');
-  } catch (cdnError) {
-    // If CDN fails (usually CORS), fallback to local WASM files
-    console.warn('⚠️ CDN initialization failed, falling back to local WASM files:', cdnError);
-    console.log('🔄 Trying local WASM files from public folder...');
-    await initSDK({
-      tfheParams: '/tfhe_bg.wasm',
-      kmsParams: '/kms_lib_bg.wasm'
+  private inheritableOptions(): FhevmClientOptions {
+    const { store, ...options } = this.options;
+    return options;
+  }
+
+  private createMockInstance() {
+    const instance = createMockFhevmInstance({
+      ...(typeof this.options.mock === 'object' ? this.options.mock : {}),
+      network: this.network!,
     });
-    console.log('✅ FHEVM SDK initialized with local WASM files');
+    this.logger.info(`FHEVM mock instance created for ${this.network!.name}`);
+    return instance;
   }
 
-  const config = { ...SepoliaConfig, network: window.ethereum };
+  private get logger() {
+    return this.options.logger ?? getLogger();
+  }
 
-  try {
-    fheInstance = await createInstance(config);
-    return fheInstance;
-  } catch (err) {
-    console.error('FHEVM browser instance creation failed:', err);
-    throw err;
+  /**
+   * Time an operation for the telemetry hook and show it in the store
+   */
+  private track<T>(operation: TelemetryOperation, fn: () => Promise<T>, count?: number) {
+    const timed = () => trackOperation(this.options.onTelemetry, operation, fn, { count, network: this.network?.name });
+    return operation === 'init'
+      ? this.store.trackInitialization(timed)
+      : this.store.trackOperation(operation, timed, count);
   }
-}
 
-/**
- * Initialize FHEVM instance for Node.js environment
- * REAL FUNCTIONALITY - uses actual RelayerSDK
- */
-async function initializeNodeFheInstance(rpcUrl?: string) {
-  try {
-    console.log('🚀 Initializing REAL FHEVM Node.js instance...');
-
-    // Use eval to prevent webpack from analyzing these imports
-    const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
-    const { createInstance, SepoliaConfig, generateKeypair } = relayerSDKModule;
-
-    // Create an EIP-1193 compatible provider for Node.js
-    const ethersModule = await eval('import("ethers")');
-    const provider = new ethersModule.ethers.JsonRpcProvider(rpcUrl || 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3');
-
-    // Create EIP-1193 provider wrapper
-    const eip1193Provider = {
-      request: async ({ method, params }: { method: string; params: any[] }) => {
-        switch (method) {
-          case 'eth_chainId':
-            return '0xaa36a7'; // Sepolia chain ID
-          case 'eth_accounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_requestAccounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_call':
-            // Use the real provider for blockchain calls
-            return await provider.call(params[0]);
-          case 'eth_sendTransaction':
-            // Use the real provider for transactions
-            return await provider.broadcastTransaction(params[0]);
-          default:
-            throw new Error(`Unsupported method: ${method}`);
-        }
-      },
-      on: () => {},
-      removeListener: () => {}
-    };
+  /**
+   * Run a relayer or RPC call under the client's retry policy for that operation
+   */
+  private retry<T>(operation: RetryOperation, fn: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal) {
+    return withRetry(operation, fn, { ...this.options.retry?.[operation], signal });
+  }
 
-    const config = {
-      ...SepoliaConfig,
-      network: eip1193Provider
-    };
+  private relayerConfig(network: any) {
+    return { ...toRelayerConfig(this.network!), ...this.options.config, network };
+  }
+
+  /**
+   * Initialize FHEVM instance for browser environment
+   */
+  private async initializeBrowserInstance(provider: any) {
+    // Check for both uppercase and lowercase versions of RelayerSDK
+    let sdk = (window as any).RelayerSDK || (window as any).relayerSDK;
 
-    fheInstance = await createInstance(config);
-    console.log('✅ REAL FHEVM Node.js instance created successfully!');
-    return fheInstance;
-  } catch (err) {
-    console.error('FHEVM Node.js instance creation failed:', err);
-    throw err;
+    if (!sdk) {
+      throw new FhevmNotInitializedError('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
+    }
+
+    const { initSDK, createInstance } = sdk;
+
+    // CDN first, then local WASM files (e.g. on CORS errors) - or local only in offline mode
+    await this.retry('initSDK', () => initRelayerWasm(initSDK, this.options.wasm, this.logger));
+
+    const config = this.relayerConfig(provider);
+
+    try {
+      return await this.retry('createInstance', () => createInstance(config));
+    } catch (err) {
+      this.logger.error('FHEVM browser instance creation failed', err);
+      throw toFhevmError(err);
+    }
   }
-}
 
-/**
- * Initialize FHEVM instance - Environment-aware
- * MAINTAINS BACKWARD COMPATIBILITY
- */
-export async function initializeFheInstance(options?: { rpcUrl?: string }) {
-  // Detect environment
-  if (typeof window !== 'undefined' && window.ethereum) {
-    // Browser environment - use existing working code
-    return initializeBrowserFheInstance();
-  } else {
-    // Node.js environment - use new functionality
-    return initializeNodeFheInstance(options?.rpcUrl);
+  /**
+   * Initialize FHEVM instance for Node.js environment
+   * REAL FUNCTIONALITY - uses actual RelayerSDK
+   */
+  private async initializeNodeInstance() {
+    try {
+      this.logger.debug('Initializing FHEVM Node.js instance');
+
+      // Use eval to prevent webpack from analyzing these imports
+      const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
+      const { createInstance } = relayerSDKModule;
+
+      this.provider = this.options.provider ?? await this.createNodeProvider();
+      const config = this.relayerConfig(this.provider);
+
+      const instance = await this.retry('createInstance', () => createInstance(config));
+      this.logger.info('FHEVM Node.js instance created');
+      return instance;
+    } catch (err) {
+      this.logger.error('FHEVM Node.js instance creation failed', err);
+      throw toFhevmError(err);
+    }
   }
-}
 
-export function getFheInstance() {
-  return fheInstance;
-}
+  /**
+   * Start the worker and create the relayer instance inside it. The worker reaches the
+   * chain through the RPC URL - an EIP-1193 provider cannot be sent to another thread.
+   */
+  private async initializeWorkerInstance() {
+    const rpcUrl = this.options.rpcUrl ?? this.network!.rpcUrl;
+    if (!rpcUrl) {
+      throw new UnsupportedNetworkError(`No RPC URL for network ${this.network!.name}. Pass the rpcUrl option to use worker mode.`);
+    }
 
-/**
- * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
- */
-export async function decryptValue(encryptedBytes: string, contractAddress: string, signer: any): Promise<number> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+    try {
+      const instance = await WorkerRelayerInstance.spawn({
+        config: this.relayerConfig(rpcUrl),
+        wasm: this.options.wasm,
+        retry: this.options.retry,
+      }, this.options.workerUrl);
+      this.logger.info('FHEVM worker instance created');
+      return instance;
+    } catch (err) {
+      this.logger.error('FHEVM worker instance creation failed', err);
+      throw toFhevmError(err);
+    }
+  }
 
-  try {
-    console.log('🔐 Using EIP-712 user decryption for handle:', encryptedBytes);
+  /**
+   * Create an EIP-1193 compatible provider for Node.js from rpcUrl and signer
+   */
+  private async createNodeProvider() {
+    const rpcUrl = this.options.rpcUrl ?? this.network!.rpcUrl;
+    if (!rpcUrl) {
+      throw new UnsupportedNetworkError(`No RPC URL for network ${this.network!.name}. Pass the rpcUrl option.`);
+    }
 
-    // Use EIP-712 user decryption instead of public decryption
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = [
-      {
-        handle: encryptedBytes,
-        contractAddress: contractAddress,
-      },
-    ];
+    const provider = new NodeEip1193Provider(rpcUrl, this.options.signer);
+    const chainId = parseInt(await provider.request({ method: 'eth_chainId' }), 16);
+    if (chainId !== this.network!.chainId) {
+      throw new UnsupportedNetworkError(`RPC ${rpcUrl} is on chain ${chainId}, expected ${this.network!.chainId} (${this.network!.name}).`);
+    }
+    return provider;
+  }
 
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
+  private requireInstance() {
+    if (!this.instance) throw new FhevmNotInitializedError();
+    return this.instance;
+  }
 
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
+  /**
+   * Read-only ethers runner over the instance's provider, for ACL/KMS contract reads
+   */
+  private contractRunner() {
+    this.requireInstance();
+    return new ethers.BrowserProvider(this.provider, this.network!.chainId);
+  }
+
+  private requireSigner(signer?: any) {
+    const resolved = signer ?? this.options.signer;
+    if (!resolved) throw new MissingSignerError();
+    return resolved;
+  }
+
+  /**
+   * Decode a handle's metadata and check it was created on the active chain
+   * (and has the expected type) - throws InvalidHandleError otherwise
+   */
+  inspectHandle(handle: string, type?: FheTypeName | FheTypeName[]): ParsedHandle {
+    return parseHandle(handle, { chainId: this.network?.chainId, type });
+  }
+
+  /**
+   * Report which handles the user can decrypt - checks ACL.isAllowed for both
+   * the user and the contract, without asking the wallet for anything
+   */
+  async checkDecryptAccess(handleContractPairs: HandleContractPair[], userAddress?: string) {
+    const user = userAddress ?? await this.requireSigner().getAddress();
+    return this.retry('rpcRead', () =>
+      queryDecryptAccess(this.contractRunner(), this.network!.aclContractAddress, handleContractPairs, user)
     );
+  }
 
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
+  /**
+   * Report which handles were made publicly decryptable
+   */
+  async checkPublicDecryptAccess(handles: string[]) {
+    return this.retry('rpcRead', () =>
+      queryPublicDecryptAccess(this.contractRunner(), this.network!.aclContractAddress, handles)
     );
+  }
+
+  /**
+   * Dry-run a public decryption proof with IKMSVerifier.verifyDecryptionEIP712KMSSignatures,
+   * the same check FHE.checkSignatures does on-chain - no transaction, no gas
+   */
+  async verifyDecryptionProof(
+    handles: string[],
+    abiEncodedClearValues: string,
+    decryptionProof: string,
+    options: ProofCheckOptions = {}
+  ) {
+    const runner = options.rpcUrl ? new ethers.JsonRpcProvider(options.rpcUrl) : this.contractRunner();
+    const kmsContractAddress = options.kmsContractAddress ?? this.network!.kmsContractAddress;
+    return this.track('verify', () => this.retry('rpcRead', () =>
+      queryProofVerification(runner, kmsContractAddress, handles, abiEncodedClearValues, decryptionProof)
+    ), handles.length);
+  }
 
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
+  /**
+   * Create a user-decryption session for a set of contracts.
+   * The wallet is asked to sign once, on the first decryption.
+   */
+  createDecryptionSession(
+    contractAddresses: string[],
+    options: { signer?: any; durationDays?: number } = {}
+  ) {
+    return new DecryptionSession(this.requireInstance(), {
       contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
+      signer: this.requireSigner(options.signer),
+      durationDays: options.durationDays ?? this.options.decryptionDurationDays,
+    });
+  }
+
+  /**
+   * Revoke every session cached by decryptValue/batchDecryptValues
+   */
+  revokeDecryptionSessions() {
+    this.sessions.forEach(session => session.revoke());
+    this.sessions.clear();
+  }
 
-    return Number(result[encryptedBytes]);
-  } catch (error: any) {
-    // Check for relayer/network error
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
+  /**
+   * Cached session for this signer covering every contract - renews itself once expired
+   */
+  private async getDecryptionSession(contractAddresses: string[], signer: any) {
+    const userAddress: string = (await signer.getAddress()).toLowerCase();
+    const key = [userAddress, ...[...contractAddresses].sort()].join(':').toLowerCase();
+
+    // A session authorized for a wider contract set works too
+    let session = this.sessions.get(key);
+    for (const [cachedKey, cached] of this.sessions) {
+      if (session) break;
+      if (cachedKey.startsWith(`${userAddress}:`) && contractAddresses.every(address => cached.covers(address))) {
+        session = cached;
+      }
+    }
+    if (!session) {
+      session = this.createDecryptionSession(contractAddresses, { signer });
+      this.sessions.set(key, session);
     }
-    throw error;
+    return session;
   }
-}
 
-/**
- * Batch decrypt multiple encrypted values using EIP-712 user decryption
- */
-export async function batchDecryptValues(
-  handles: string[],
-  contractAddress: string,
-  signer: any
-): Promise<Record<string, number>> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+  /**
+   * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
+   * Returns a typed result; pass { legacyNumber: true } for the old Number(...) behaviour.
+   */
+  decryptValue(encryptedBytes: string, contractAddress: string, signer?: any, options?: { legacyNumber?: false }): Promise<DecryptedValue>;
+  decryptValue(encryptedBytes: string, contractAddress: string, signer: any, options: { legacyNumber: true }): Promise<number>;
+  decryptValue(encryptedBytes: string, contractAddress: string, signer?: any, options?: { legacyNumber?: boolean }): Promise<DecryptedValue | number>;
+  async decryptValue(
+    encryptedBytes: string,
+    contractAddress: string,
+    signer?: any,
+    options: { legacyNumber?: boolean } = {}
+  ): Promise<DecryptedValue | number> {
+    // Use EIP-712 user decryption instead of public decryption
+    const handleContractPairs = [
+      {
+        handle: encryptedBytes,
+        contractAddress: contractAddress,
+      },
+    ];
 
-  try {
-    console.log('🔐 Using EIP-712 batch user decryption for handles:', handles);
+    const result = await this.userDecryptRaw(handleContractPairs, signer);
+
+    return options.legacyNumber
+      ? Number(result[encryptedBytes])
+      : toDecryptedValue(encryptedBytes, result[encryptedBytes]);
+  }
+
+  /**
+   * Batch decrypt multiple encrypted values using EIP-712 user decryption
+   * Returns typed results; pass { legacyNumber: true } for the old Number(...) behaviour.
+   */
+  batchDecryptValues(handles: string[], contractAddress: string, signer?: any, options?: BatchOptions & { legacyNumber?: false }): Promise<Record<string, DecryptedValue>>;
+  batchDecryptValues(handles: string[], contractAddress: string, signer: any, options: BatchOptions & { legacyNumber: true }): Promise<Record<string, number>>;
+  batchDecryptValues(handles: string[], contractAddress: string, signer?: any, options?: DecryptOptions): Promise<Record<string, DecryptedValue | number>>;
+  async batchDecryptValues(
+    handles: string[],
+    contractAddress: string,
+    signer?: any,
+    options: DecryptOptions = {}
+  ): Promise<Record<string, DecryptedValue | number>> {
+    // Nothing to decrypt - no session, no signature prompt
+    if (handles.length === 0) return {};
 
-    const keypair = fhe.generateKeypair();
     const handleContractPairs = handles.map(handle => ({
       handle,
       contractAddress: contractAddress,
     }));
 
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
+    const result = await this.userDecryptRaw(handleContractPairs, signer, options);
 
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
+    const decryptedValues: Record<string, DecryptedValue | number> = {};
+    for (const handle of handles) {
+      decryptedValues[handle] = options.legacyNumber
+        ? Number(result[handle])
+        : toDecryptedValue(handle, result[handle]);
+    }
 
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
+    return decryptedValues;
+  }
 
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
+  /**
+   * Decrypt handles from several contracts with a single EIP-712 authorization
+   * covering every contract involved. Results are keyed by handle.
+   */
+  async userDecrypt(
+    handleContractPairs: HandleContractPair[],
+    signer?: any,
+    options: BatchOptions = {}
+  ): Promise<Record<string, DecryptedValue>> {
+    const result = await this.userDecryptRaw(handleContractPairs, signer, options);
+
+    const decryptedValues: Record<string, DecryptedValue> = {};
+    for (const { handle } of handleContractPairs) {
+      decryptedValues[handle] = toDecryptedValue(handle, result[handle]);
+    }
+
+    return decryptedValues;
+  }
+
+  /**
+   * Chunked user decryption - every chunk reuses the same session authorization
+   */
+  private async userDecryptRaw(
+    handleContractPairs: HandleContractPair[],
+    signer?: any,
+    options: BatchOptions = {}
+  ): Promise<Record<string, any>> {
+    const userSigner = this.requireSigner(signer);
+
+    try {
+      // A handle from another chain would only fail at the relayer, after the signature prompt
+      for (const { handle } of handleContractPairs) {
+        this.inspectHandle(handle);
+      }
+
+      // One authorization for all involved contracts
+      const contractAddresses = Array.from(
+        new Set(handleContractPairs.map(pair => ethers.getAddress(pair.contractAddress)))
+      );
+
+      // Fail before the signature prompt when the ACL would make the relayer refuse
+      if (this.options.aclPreflight ?? !this.usesMock) {
+        const report = await this.checkDecryptAccess(handleContractPairs, await userSigner.getAddress());
+        if (!report.allDecryptable) {
+          throw new AclDeniedError(
+            `Not allowed to decrypt ${report.denied.length} of ${handleContractPairs.length} handle(s): ${report.denied.join(', ')}`,
+            { deniedHandles: report.denied }
+          );
+        }
+      }
+
+      const session = await this.getDecryptionSession(contractAddresses, userSigner);
+      await session.authorize();
+
+      // Timed without the ACL check and the wallet prompt
+      const results = await this.track('userDecrypt', () => runChunked(
+        handleContractPairs,
+        chunk => this.retry('userDecrypt', attempt => session.userDecrypt(chunk, { signal: attempt }), options.signal),
+        { ...this.options.batch, ...options }
+      ), handleContractPairs.length);
+      return Object.assign({}, ...results);
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+  }
+
+  /**
+   * Encrypt values using FHEVM
+   *
+   * 📝 BIT SIZE SUPPORT:
+   * FHEVM supports different bit sizes for encrypted values. If your contract uses a different bit size
+   * than the default 32-bit, you can use the appropriate method:
+   * - add8(value)   - for 8-bit values (0-255)
+   * - add16(value) - for 16-bit values (0-65535)
+   * - add32(value) - for 32-bit values (0-4294967295) - DEFAULT
+   * - add64(value) - for 64-bit values (0-18446744073709551615)
+   * - add128(value) - for 128-bit values
+   * - add256(value) - for 256-bit values
+   *
+   * Example: If your contract expects 8-bit values, replace add32() with add8()
+   */
+  async encryptValue(
+    contractAddress: string,
+    address: string,
+    plainDigits: number[]
+  ) {
+    const relayer = this.instance;
+    if (!relayer) throw new FhevmNotInitializedError();
+
+    const ciphertextBlob: any = await this.track('encrypt', () => this.retry('encrypt', () => {
+      const inputHandle = relayer.createEncryptedInput(contractAddress, address);
+      for (const d of plainDigits) {
+        inputHandle.add8(d);
+      }
+      return inputHandle.encrypt();
+    }), plainDigits.length);
+    return ciphertextBlob;
+  }
+
+  /**
+   * Start a typed, multi-value encrypted input bound to a contract and user
+   */
+  input(contractAddress: string, userAddress: string) {
+    return new EncryptedInputBuilder(this.requireInstance(), contractAddress, userAddress, {
+      retry: this.options.retry?.encrypt,
+      onTelemetry: this.options.onTelemetry,
+      network: this.network?.name,
+      chainId: this.network?.chainId,
+      store: this.store,
+    });
+  }
+
+  /**
+   * Create encrypted input for contract interaction (matches showcase API)
+   */
+  async createEncryptedInput(contractAddress: string, userAddress: string, value: number) {
+    const fhe = this.requireInstance();
+
+    const result: any = await this.track('encrypt', () => this.retry('encrypt', () => {
+      const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
+      inputHandle.add32(value);
+      return inputHandle.encrypt();
+    }), 1);
+
+    // The FHEVM SDK returns an object with handles and inputProof
+    // We need to extract the correct values for the contract
+    if (result && typeof result === 'object') {
+      // If result has handles array, use the first handle
+      if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
+        return {
+          encryptedData: result.handles[0],
+          proof: result.inputProof
+        };
+      }
+      // If result has encryptedData and proof properties
+      else if (result.encryptedData && result.proof) {
+        return {
+          encryptedData: result.encryptedData,
+          proof: result.proof
+        };
+      }
+      // Fallback: use the result as-is
+      else {
+        return {
+          encryptedData: result,
+          proof: result
+        };
+      }
+    }
+
+    // If result is not an object, use it directly
+    return {
+      encryptedData: result,
+      proof: result
+    };
+  }
+
+  /**
+   * Public decryption, in one request unless `chunkSize` is passed.
+   * Each chunk has its own KMS proof (see `chunks`), so the merged result is only
+   * verifiable when everything fit in a single chunk.
+   * Throws ProofVerificationError when the relayer returns no KMS proof, or the handles
+   * would be split over several proofs, unless `allowUnverified` is set.
+   */
+  async publicDecryptV09(handles: string[], options: PublicDecryptOptions = {}): Promise<PublicDecryptResult & {
+    chunks: PublicDecryptResult[];
+  }> {
+    this.requireInstance();
+
+    // The client's default chunk size is for user decryption - one proof needs one request
+    const { allowUnverified = false, chunkSize = Math.max(1, handles.length), ...batch } = options;
+    if (handles.length > chunkSize && !allowUnverified) {
+      throw new ProofVerificationError(
+        `${handles.length} handles in chunks of ${chunkSize} would have no single KMS proof. Pass allowUnverified to merge them anyway.`
+      );
+    }
+
+    const chunks = await this.track('publicDecrypt', () => runChunked(
+      handles,
+      chunk => this.publicDecryptChunk(chunk, allowUnverified, options.signal),
+      { ...this.options.batch, ...batch, chunkSize }
+    ), handles.length);
+
+    if (chunks.length === 1) {
+      return { ...chunks[0], chunks };
+    }
+
+    const clearValues = Object.assign({}, ...chunks.map(chunk => chunk.clearValues));
+    return {
+      clearValues,
+      values: Object.assign({}, ...chunks.map(chunk => chunk.values)),
+      abiEncodedClearValues: abiEncodeClearValues(handles, clearValues),
+      decryptionProof: null,
+      verifiable: false,
+      chunks,
+    };
+  }
+
+  /**
+   * Public decryption followed by the on-chain verification transaction built by `verifyFunction`.
+   * The proof is dry-run first so a bad one never costs gas.
+   */
+  async decryptAndVerify(
+    handles: string[],
+    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>,
+    options: PublicDecryptOptions & ProofCheckOptions = {}
+  ) {
+    const decryptionResult = await this.publicDecryptV09(handles, options);
+    if (!decryptionResult.verifiable) {
+      throw new ProofVerificationError('Decrypted values have no single KMS proof to verify on-chain');
+    }
+
+    const proofCheck = await this.verifyDecryptionProof(
+      handles,
+      decryptionResult.abiEncodedClearValues,
+      decryptionResult.decryptionProof,
+      options
     );
+    if (!proofCheck.valid) {
+      throw new ProofVerificationError(`KMS proof rejected: ${proofCheck.reason}`);
+    }
+
+    try {
+      const tx = await verifyFunction(decryptionResult.abiEncodedClearValues, decryptionResult.decryptionProof);
+      const transactionReceipt = await tx.wait();
+      return { decryptionResult, proofCheck, transactionReceipt };
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+  }
+
+  private async publicDecryptChunk(
+    handles: string[],
+    allowUnverified: boolean,
+    signal?: AbortSignal
+  ): Promise<PublicDecryptResult> {
+    const fhe = this.requireInstance();
 
-    // Convert result to numbers
-    const decryptedValues: Record<string, number> = {};
     for (const handle of handles) {
-      decryptedValues[handle] = Number(result[handle]);
+      this.inspectHandle(handle);
+    }
+    if (typeof fhe.publicDecrypt !== 'function') {
+      throw new RelayerError('This relayer SDK version does not support public decryption');
     }
 
-    return decryptedValues;
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
+    try {
+      const result: any = await this.retry('publicDecrypt', attempt => fhe.publicDecrypt(handles, ...workerCallOptions(fhe, attempt)), signal);
+      // Older relayers return the bare handle => value map, without a proof
+      const clearValues = result?.clearValues ?? result;
+      const decryptionProof: string | undefined = result?.decryptionProof;
+
+      const missing = handles.filter(handle => clearValues?.[handle] === undefined);
+      if (missing.length > 0) {
+        throw new RelayerError(`Relayer returned no clear value for ${missing.join(', ')}`);
+      }
+
+      const values: Record<string, DecryptedValue> = {};
+      for (const handle of handles) {
+        values[handle] = toDecryptedValue(handle, clearValues[handle]);
+      }
+      const abiEncodedClearValues = result?.abiEncodedClearValues ?? abiEncodeClearValues(handles, clearValues);
+
+      if (decryptionProof && ethers.isHexString(decryptionProof) && decryptionProof !== '0x') {
+        return { clearValues, values, abiEncodedClearValues, decryptionProof, verifiable: true };
+      }
+
+      if (!allowUnverified) {
+        throw new ProofVerificationError('Relayer returned no KMS decryption proof. The values cannot be verified on-chain.');
+      }
+      this.logger.warn('Public decryption returned no KMS proof - values cannot be verified on-chain');
+      return { clearValues, values, abiEncodedClearValues, decryptionProof: null, verifiable: false };
+    } catch (error) {
+      throw toFhevmError(error);
     }
-    throw error;
   }
 }
 
+const defaultClient = new FhevmClient();
+
 /**
- * Encrypt values using FHEVM
- *
- * 📝 BIT SIZE SUPPORT:
- * FHEVM supports different bit sizes for encrypted values. If your contract uses a different bit size
- * than the default 32-bit, you can use the appropriate method:
- * - add8(value)   - for 8-bit values (0-255)
- * - add16(value) - for 16-bit values (0-65535)
- * - add32(value) - for 32-bit values (0-4294967295) - DEFAULT
- * - add64(value) - for 64-bit values (0-18446744073709551615)
- * - add128(value) - for 128-bit values
- * - add256(value) - for 256-bit values
- *
- * Example: If your contract expects 8-bit values, replace add32() with add8()
+ * Get the default client used by the free functions below
  */
-export async function encryptValue(
-  contractAddress: string,
-  address: string,
-  plainDigits: number[]
-) {
-  const relayer = getFheInstance();
-  if (!relayer) throw new Error("FHEVM not initialized");
+export function getDefaultFhevmClient() {
+  return defaultClient;
+}
+
+let workerClient: FhevmClient | null = null;
 
-  const inputHandle = relayer.createEncryptedInput(contractAddress, address);
-  for (const d of plainDigits) {
-    inputHandle.add8(d);
+/**
+ * Shared worker-mode client, used by useEncrypt({ worker: true }). Derived from the
+ * default client, so it uses the same network, WASM pins, retries, logger and telemetry.
+ * Created on first use and initialized lazily through ready().
+ */
+export function getWorkerFhevmClient() {
+  if (!workerClient) {
+    workerClient = defaultClient.derive({ execution: 'worker' });
   }
+  return workerClient;
+}
 
-  const ciphertextBlob = await inputHandle.encrypt();
-  return ciphertextBlob;
+/**
+ * Store of the default client - what the React hooks observe
+ */
+export function getFhevmStore() {
+  return defaultClient.store;
 }
 
 /**
- * Create encrypted input for contract interaction (matches showcase API)
+ * Initialize FHEVM instance - Environment-aware
+ * MAINTAINS BACKWARD COMPATIBILITY
  */
-export async function createEncryptedInput(contractAddress: string, userAddress: string, value: number) {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
-
-  const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
-  inputHandle.add32(value);
-  const result = await inputHandle.encrypt();
-
-  console.log('✅ Encrypted input created successfully');
-  console.log('🔍 Encrypted result structure:', result);
-
-  // The FHEVM SDK returns an object with handles and inputProof
-  // We need to extract the correct values for the contract
-  if (result && typeof result === 'object') {
-    // If result has handles array, use the first handle
-    if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
-      return {
-        encryptedData: result.handles[0],
-        proof: result.inputProof
-      };
-    }
-    // If result has encryptedData and proof properties
-    else if (result.encryptedData && result.proof) {
-      return {
-        encryptedData: result.encryptedData,
-        proof: result.proof
-      };
-    }
-    // Fallback: use the result as-is
-    else {
-      return {
-        encryptedData: result,
-        proof: result
-      };
-    }
-  }
+export async function initializeFheInstance(options?: FhevmClientOptions) {
+  return defaultClient.initialize(options);
+}
 
-  // If result is not an object, use it directly
-  return {
-    encryptedData: result,
-    proof: result
-  };
+export function getFheInstance() {
+  return defaultClient.getInstance();
 }
 
-export async function publicDecryptV09(handles: string[]): Promise<{
-  clearValues: { [handle: string]: bigint };
-  abiEncodedClearValues: string;
-  decryptionProof: string;
-}> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
+/**
+ * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
+ */
+export function decryptValue(encryptedBytes: string, contractAddress: string, signer: any, options?: { legacyNumber?: false }): Promise<DecryptedValue>;
+export function decryptValue(encryptedBytes: string, contractAddress: string, signer: any, options: { legacyNumber: true }): Promise<number>;
+export function decryptValue(encryptedBytes: string, contractAddress: string, signer: any, options?: { legacyNumber?: boolean }): Promise<DecryptedValue | number>;
+export async function decryptValue(
+  encryptedBytes: string,
+  contractAddress: string,
+  signer: any,
+  options?: { legacyNumber?: boolean }
+): Promise<DecryptedValue | number> {
+  return defaultClient.decryptValue(encryptedBytes, contractAddress, signer, options);
+}
 
-  try {
-    console.log('🔐 Starting v0.9 public decryption for handles:', handles);
+/**
+ * Create a reusable user-decryption session on the default client
+ */
+export function createDecryptionSession(
+  contractAddresses: string[],
+  options?: { signer?: any; durationDays?: number }
+) {
+  return defaultClient.createDecryptionSession(contractAddresses, options);
+}
 
-    if (typeof fhe.publicDecrypt === 'function') {
-      const result = await fhe.publicDecrypt(handles);
+export function revokeDecryptionSessions() {
+  defaultClient.revokeDecryptionSessions();
+}
 
-      if (result && result.clearValues && result.abiEncodedClearValues && result.decryptionProof) {
-        return result;
-      } else {
-        throw new Error('Invalid publicDecrypt result structure');
-      }
-    } else {
-      console.warn('⚠️ Using fallback decryption for v0.9 compatibility');
+/**
+ * ACL pre-flight for user decryption on the default client
+ */
+export async function checkDecryptAccess(handleContractPairs: HandleContractPair[], userAddress?: string) {
+  return defaultClient.checkDecryptAccess(handleContractPairs, userAddress);
+}
 
-      const clearValues: { [handle: string]: bigint } = {};
-      let abiEncodedClearValues = '0x';
-      const decryptionProof = '0x';
+/**
+ * Decode a handle and check it against the default client's chain
+ */
+export function inspectHandle(handle: string, type?: FheTypeName | FheTypeName[]) {
+  return defaultClient.inspectHandle(handle, type);
+}
 
-      for (const handle of handles) {
-        if (typeof handle === "string" && handle.startsWith("0x") && handle.length === 66) {
-          const values = await fhe.publicDecrypt([handle]);
-          const clearValue = BigInt(values[handle]);
-          clearValues[handle] = clearValue;
-        } else {
-          throw new Error('Invalid ciphertext handle for decryption');
-        }
-      }
+/**
+ * ACL pre-flight for public decryption on the default client
+ */
+export async function checkPublicDecryptAccess(handles: string[]) {
+  return defaultClient.checkPublicDecryptAccess(handles);
+}
 
-      if (handles.length === 1) {
+/**
+ * Dry-run a public decryption proof on the default client
+ */
+export async function verifyDecryptionProof(
+  handles: string[],
+  abiEncodedClearValues: string,
+  decryptionProof: string,
+  options?: ProofCheckOptions
+) {
+  return defaultClient.verifyDecryptionProof(handles, abiEncodedClearValues, decryptionProof, options);
+}
 
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          ['uint32'],
-          [Number(clearValues[handles[0]])]
-        );
-      } else {
+/**
+ * Batch decrypt multiple encrypted values using EIP-712 user decryption
+ */
+export function batchDecryptValues(handles: string[], contractAddress: string, signer: any, options?: BatchOptions & { legacyNumber?: false }): Promise<Record<string, DecryptedValue>>;
+export function batchDecryptValues(handles: string[], contractAddress: string, signer: any, options: BatchOptions & { legacyNumber: true }): Promise<Record<string, number>>;
+export function batchDecryptValues(handles: string[], contractAddress: string, signer: any, options?: DecryptOptions): Promise<Record<string, DecryptedValue | number>>;
+export async function batchDecryptValues(
+  handles: string[],
+  contractAddress: string,
+  signer: any,
+  options?: DecryptOptions
+): Promise<Record<string, DecryptedValue | number>> {
+  return defaultClient.batchDecryptValues(handles, contractAddress, signer, options);
+}
 
-        const values = handles.map(handle => Number(clearValues[handle]));
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          Array(values.length).fill('uint32'),
-          values
-        );
-      }
+/**
+ * Decrypt handles from several contracts with one EIP-712 authorization
+ */
+export async function userDecrypt(handleContractPairs: HandleContractPair[], signer: any, options?: BatchOptions) {
+  return defaultClient.userDecrypt(handleContractPairs, signer, options);
+}
 
-      return {
-        clearValues,
-        abiEncodedClearValues,
-        decryptionProof
-      };
-    }
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
-  }
+/**
+ * Encrypt values using FHEVM (see FhevmClient.encryptValue for bit sizes)
+ */
+export async function encryptValue(
+  contractAddress: string,
+  address: string,
+  plainDigits: number[]
+) {
+  return defaultClient.encryptValue(contractAddress, address, plainDigits);
 }
 
+/**
+ * Start a typed, multi-value encrypted input on the default client
+ */
+export function encryptedInput(contractAddress: string, userAddress: string) {
+  return defaultClient.input(contractAddress, userAddress);
+}
 
+/**
+ * Create encrypted input for contract interaction (matches showcase API)
+ */
+export async function createEncryptedInput(contractAddress: string, userAddress: string, value: number) {
+  return defaultClient.createEncryptedInput(contractAddress, userAddress, value);
+}
+
+export async function publicDecryptV09(handles: string[], options?: PublicDecryptOptions) {
+  return defaultClient.publicDecryptV09(handles, options);
+}
+
+/**
+ * Public decryption, proof dry-run and verification transaction on the default client
+ */
+export async function decryptAndVerify(
+  handles: string[],
+  verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>,
+  options?: PublicDecryptOptions & ProofCheckOptions
+) {
+  return defaultClient.decryptAndVerify(handles, verifyFunction, options);
+}
@@ -6,5 +6,23 @@
 // Core FHEVM functionality - All functions consolidated in fhevm.ts
 export * from './fhevm.js';
 export * from './contracts.js';
+export * from './networks.js';
+export * from './nodeProvider.js';
+export * from './decryptionSession.js';
+export * from './encryptedInput.js';
+export * from './inputEnvelope.js';
+export * from './fheTypes.js';
+export * from './batching.js';
+export * from './retry.js';
+export * from './logger.js';
+export * from './telemetry.js';
+export * from './store.js';
+export * from './wasmAssets.js';
+export * from './errors.js';
+export * from './acl.js';
+export * from './proofs.js';
+export * from './revert.js';
+export * from './transactions.js';
+export * from './mockInstance.js';
 
 
@@ -0,0 +1,153 @@
+/**
+ * FHEVM Encrypted Input Envelope - Universal SDK
+ * Portable JSON form of an encrypted input, to encrypt on one machine and submit from another
+ */
+
+import { ethers } from 'ethers';
+import { EncryptedHandle, FHE_TYPE_BITS, FheTypeName, parseHandle } from './fheTypes.js';
+import { InvalidInputError } from './errors.js';
+
+export const ENCRYPTED_INPUT_SCHEMA_VERSION = 1;
+
+/**
+ * An encrypted input with everything it is bound to. The input proof is only valid
+ * for this chain, contract and user - the envelope makes that checkable up front.
+ */
+export interface EncryptedInputEnvelope {
+  schemaVersion: typeof ENCRYPTED_INPUT_SCHEMA_VERSION;
+  chainId: number;
+  contractAddress: string;
+  /** Account that has to submit the input */
+  userAddress: string;
+  /** In the order they were added */
+  handles: EncryptedHandle[];
+  inputProof: string;
+  /** ISO 8601 time of encryption */
+  createdAt: string;
+}
+
+/**
+ * What the submitting side expects the envelope to be bound to
+ */
+export interface EnvelopeExpectation {
+  chainId?: number;
+  contractAddress?: string;
+  userAddress?: string;
+  /** Encrypted types the method takes, in order */
+  types?: FheTypeName[];
+}
+
+/**
+ * Wrap the result of an encryption with what it is bound to
+ */
+export function createEncryptedInputEnvelope(
+  input: { handles: string[]; types: FheTypeName[]; inputProof: string },
+  binding: { chainId: number; contractAddress: string; userAddress: string },
+  createdAt: Date = new Date()
+): EncryptedInputEnvelope {
+  return checkEncryptedInputEnvelope({
+    schemaVersion: ENCRYPTED_INPUT_SCHEMA_VERSION,
+    chainId: binding.chainId,
+    contractAddress: binding.contractAddress,
+    userAddress: binding.userAddress,
+    handles: input.handles.map((handle, index) => ({ handle, type: input.types[index] })),
+    inputProof: input.inputProof,
+    createdAt: createdAt.toISOString(),
+  });
+}
+
+export function serializeEncryptedInput(envelope: EncryptedInputEnvelope): string {
+  return JSON.stringify(checkEncryptedInputEnvelope(envelope));
+}
+
+/**
+ * Parse a serialized envelope and check it against the submitting side.
+ * Throws InvalidInputError when it is malformed or bound to something else.
+ */
+export function deserializeEncryptedInput(json: string, expected: EnvelopeExpectation = {}): EncryptedInputEnvelope {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    throw new InvalidInputError('Encrypted input envelope is not valid JSON', { cause: error });
+  }
+  return checkEncryptedInputEnvelope(parsed, expected);
+}
+
+/**
+ * Validate an envelope's shape and handles, then its binding to `expected`.
+ * Returns the envelope with checksummed addresses.
+ */
+export function checkEncryptedInputEnvelope(value: unknown, expected: EnvelopeExpectation = {}): EncryptedInputEnvelope {
+  const envelope = value as EncryptedInputEnvelope;
+  if (!envelope || typeof envelope !== 'object') {
+    throw new InvalidInputError('Encrypted input envelope must be an object');
+  }
+  if (envelope.schemaVersion !== ENCRYPTED_INPUT_SCHEMA_VERSION) {
+    throw new InvalidInputError(
+      `Unsupported encrypted input schema version ${String(envelope.schemaVersion)} (expected ${ENCRYPTED_INPUT_SCHEMA_VERSION})`
+    );
+  }
+  if (!Number.isSafeInteger(envelope.chainId) || envelope.chainId <= 0) {
+    throw new InvalidInputError(`Invalid chainId in encrypted input envelope: ${String(envelope.chainId)}`);
+  }
+  const contractAddress = checkAddress(envelope.contractAddress, 'contractAddress');
+  const userAddress = checkAddress(envelope.userAddress, 'userAddress');
+  if (!ethers.isHexString(envelope.inputProof) || envelope.inputProof === '0x') {
+    throw new InvalidInputError('Encrypted input envelope has no input proof');
+  }
+  if (typeof envelope.createdAt !== 'string' || Number.isNaN(Date.parse(envelope.createdAt))) {
+    throw new InvalidInputError(`Invalid createdAt in encrypted input envelope: ${String(envelope.createdAt)}`);
+  }
+  if (!Array.isArray(envelope.handles) || envelope.handles.length === 0) {
+    throw new InvalidInputError('Encrypted input envelope has no handles');
+  }
+
+  // The declared types must be the ones embedded in the handles
+  const handles = envelope.handles.map(entry => {
+    const { handle, type } = (entry ?? {}) as Partial<EncryptedHandle>;
+    if (typeof type !== 'string' || !(type in FHE_TYPE_BITS)) {
+      throw new InvalidInputError(`Unknown FHE type in encrypted input envelope: ${String(type)}`);
+    }
+    try {
+      return { handle: parseHandle(String(handle), { chainId: envelope.chainId, type }).handle, type };
+    } catch (error) {
+      throw new InvalidInputError(`Invalid handle in encrypted input envelope: ${(error as Error).message}`, { cause: error });
+    }
+  });
+
+  if (expected.chainId !== undefined && envelope.chainId !== expected.chainId) {
+    throw new InvalidInputError(`Encrypted input is for chain ${envelope.chainId}, not ${expected.chainId}`);
+  }
+  if (expected.contractAddress !== undefined && contractAddress !== ethers.getAddress(expected.contractAddress)) {
+    throw new InvalidInputError(`Encrypted input is bound to contract ${contractAddress}, not ${ethers.getAddress(expected.contractAddress)}`);
+  }
+  if (expected.userAddress !== undefined && userAddress !== ethers.getAddress(expected.userAddress)) {
+    throw new InvalidInputError(
+      `Encrypted input is bound to user ${userAddress} and has to be submitted from that account, not ${ethers.getAddress(expected.userAddress)}`
+    );
+  }
+  if (expected.types !== undefined) {
+    const types = handles.map(handle => handle.type);
+    if (types.length !== expected.types.length || types.some((type, index) => type !== expected.types![index])) {
+      throw new InvalidInputError(`Encrypted input holds (${types.join(', ')}), expected (${expected.types.join(', ')})`);
+    }
+  }
+
+  return {
+    schemaVersion: ENCRYPTED_INPUT_SCHEMA_VERSION,
+    chainId: envelope.chainId,
+    contractAddress,
+    userAddress,
+    handles,
+    inputProof: envelope.inputProof,
+    createdAt: envelope.createdAt,
+  };
+}
+
+function checkAddress(address: unknown, field: string) {
+  if (typeof address !== 'string' || !ethers.isAddress(address)) {
+    throw new InvalidInputError(`Invalid ${field} in encrypted input envelope: ${String(address)}`);
+  }
+  return ethers.getAddress(address);
+}
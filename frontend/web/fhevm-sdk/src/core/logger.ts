@@ -0,0 +1,65 @@
+/**
+ * FHEVM Logger - Universal SDK
+ * Levelled logging, silent unless the app opts in
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+export interface FhevmLogger {
+  debug(message: string, ...details: unknown[]): void;
+  info(message: string, ...details: unknown[]): void;
+  warn(message: string, ...details: unknown[]): void;
+  error(message: string, ...details: unknown[]): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+};
+
+const noop = () => {};
+
+export const silentLogger: FhevmLogger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop,
+};
+
+/**
+ * Logger writing to the console at `level` and above
+ */
+export function createConsoleLogger(level: LogLevel = 'info', prefix = '[fhevm]'): FhevmLogger {
+  const enabled = (messageLevel: Exclude<LogLevel, 'silent'>) => LEVEL_ORDER[messageLevel] >= LEVEL_ORDER[level];
+
+  return {
+    debug(message, ...details) {
+      if (enabled('debug')) console.debug(prefix, message, ...details);
+    },
+    info(message, ...details) {
+      if (enabled('info')) console.info(prefix, message, ...details);
+    },
+    warn(message, ...details) {
+      if (enabled('warn')) console.warn(prefix, message, ...details);
+    },
+    error(message, ...details) {
+      if (enabled('error')) console.error(prefix, message, ...details);
+    },
+  };
+}
+
+let defaultLogger: FhevmLogger = silentLogger;
+
+/**
+ * Set the logger used by the hooks and by clients created without a `logger` option
+ */
+export function setLogger(logger: FhevmLogger) {
+  defaultLogger = logger;
+}
+
+export function getLogger(): FhevmLogger {
+  return defaultLogger;
+}
@@ -0,0 +1,412 @@
+/**
+ * FHEVM Mock Instance - Universal SDK
+ * In-memory stand-in for the relayer instance, for offline development and tests
+ */
+
+import { ethers } from 'ethers';
+import { InvalidHandleError, InvalidInputError, RelayerError } from './errors.js';
+import { HANDLE_VERSION, abiEncodeClearValues } from './fheTypes.js';
+import { FhevmNetworkPreset, HARDHAT_NETWORK } from './networks.js';
+
+/**
+ * Default coprocessor and KMS signer keys of the @fhevm/hardhat-plugin mock contracts
+ */
+export const MOCK_COPROCESSOR_SIGNER_KEY = '0x7ec8ada6642fc4ccfb7729bc29c17cf8d21b61abd5642d1db992c0b8672ab901';
+export const MOCK_KMS_SIGNER_KEY = '0x388b7680e4e1afa06efbfd45cdd1fe39f3c6af381df6555a19661f283b97de91';
+
+export type MockClearValue = bigint | boolean | string;
+
+export interface MockFhevmOptions {
+  /** Chain and verifier addresses the handles and proofs are bound to (defaults to HARDHAT_NETWORK) */
+  network?: FhevmNetworkPreset;
+  /** Keys signing input proofs - must match the InputVerifier's coprocessor signers */
+  coprocessorSignerKeys?: string[];
+  /** Keys signing public decryption proofs - must match the KMSVerifier's signers */
+  kmsSignerKeys?: string[];
+  /** Clear values of handles the mock did not encrypt itself, e.g. contract results */
+  clearValues?: Record<string, MockClearValue>;
+}
+
+/**
+ * Bit width and FHE type id of each relayer input method
+ */
+const INPUT_TYPES: Record<string, { bits: number; typeId: number }> = {
+  addBool: { bits: 2, typeId: 0 },
+  add8: { bits: 8, typeId: 2 },
+  add16: { bits: 16, typeId: 3 },
+  add32: { bits: 32, typeId: 4 },
+  add64: { bits: 64, typeId: 5 },
+  add128: { bits: 128, typeId: 6 },
+  addAddress: { bits: 160, typeId: 7 },
+  add256: { bits: 256, typeId: 8 },
+};
+
+const MAX_INPUT_BITS = 2048;
+const RAW_CT_HASH_DOMAIN_SEPARATOR = ethers.toUtf8Bytes('ZK-w_rct');
+const HANDLE_HASH_DOMAIN_SEPARATOR = ethers.toUtf8Bytes('ZK-w_hdl');
+
+const CIPHERTEXT_VERIFICATION_TYPES = {
+  CiphertextVerification: [
+    { name: 'ctHandles', type: 'bytes32[]' },
+    { name: 'userAddress', type: 'address' },
+    { name: 'contractAddress', type: 'address' },
+    { name: 'contractChainId', type: 'uint256' },
+    { name: 'extraData', type: 'bytes' },
+  ],
+};
+
+const PUBLIC_DECRYPT_VERIFICATION_TYPES = {
+  PublicDecryptVerification: [
+    { name: 'ctHandles', type: 'bytes32[]' },
+    { name: 'decryptedResult', type: 'bytes' },
+    { name: 'extraData', type: 'bytes' },
+  ],
+};
+
+const USER_DECRYPT_REQUEST_TYPES = {
+  UserDecryptRequestVerification: [
+    { name: 'publicKey', type: 'bytes' },
+    { name: 'contractAddresses', type: 'address[]' },
+    { name: 'startTimestamp', type: 'uint256' },
+    { name: 'durationDays', type: 'uint256' },
+    { name: 'extraData', type: 'bytes' },
+  ],
+};
+
+/**
+ * Deterministic relayer instance without TFHE, relayer or KMS. Handles use the real
+ * layout and input/decryption proofs are signed with the mock signer keys, so the
+ * hardhat-plugin mock contracts accept them. There is no ACL: every known handle decrypts.
+ */
+export class MockFhevmInstance {
+  readonly network: FhevmNetworkPreset;
+
+  private coprocessorSigners: ethers.Wallet[];
+  private kmsSigners: ethers.Wallet[];
+  private clearValues = new Map<string, MockClearValue>();
+  private nonce = 0;
+  private keypairs = 0;
+
+  constructor(options: MockFhevmOptions = {}) {
+    this.network = options.network ?? HARDHAT_NETWORK;
+    this.coprocessorSigners = (options.coprocessorSignerKeys ?? [MOCK_COPROCESSOR_SIGNER_KEY]).map(key => new ethers.Wallet(key));
+    this.kmsSigners = (options.kmsSignerKeys ?? [MOCK_KMS_SIGNER_KEY]).map(key => new ethers.Wallet(key));
+    for (const [handle, value] of Object.entries(options.clearValues ?? {})) {
+      this.setClearValue(handle, value);
+    }
+  }
+
+  /**
+   * Register the clear value behind a handle, e.g. one computed by a contract
+   */
+  setClearValue(handle: string, value: MockClearValue) {
+    this.clearValues.set(normalizeHandle(handle), value);
+  }
+
+  getClearValue(handle: string): MockClearValue | undefined {
+    return this.clearValues.get(normalizeHandle(handle));
+  }
+
+  createEncryptedInput(contractAddress: string, userAddress: string) {
+    return new MockEncryptedInput(entries => this.encrypt(contractAddress, userAddress, entries));
+  }
+
+  /**
+   * Keys are derived from a counter - the same sequence on every run
+   */
+  generateKeypair() {
+    const index = this.keypairs++;
+    return {
+      publicKey: ethers.keccak256(ethers.toUtf8Bytes(`fhevm-mock-public-key:${index}`)).slice(2),
+      privateKey: ethers.keccak256(ethers.toUtf8Bytes(`fhevm-mock-private-key:${index}`)).slice(2),
+    };
+  }
+
+  createEIP712(publicKey: string, contractAddresses: string[], startTimestamp: string | number, durationDays: string | number) {
+    return {
+      types: {
+        EIP712Domain: [
+          { name: 'name', type: 'string' },
+          { name: 'version', type: 'string' },
+          { name: 'chainId', type: 'uint256' },
+          { name: 'verifyingContract', type: 'address' },
+        ],
+        ...USER_DECRYPT_REQUEST_TYPES,
+      },
+      primaryType: 'UserDecryptRequestVerification',
+      domain: this.decryptionDomain(this.network.chainId),
+      message: {
+        publicKey: publicKey.startsWith('0x') ? publicKey : `0x${publicKey}`,
+        contractAddresses,
+        startTimestamp: startTimestamp.toString(),
+        durationDays: durationDays.toString(),
+        extraData: '0x00',
+      },
+    };
+  }
+
+  /**
+   * Checks the EIP-712 authorization like the relayer does, then returns the stored clear values
+   */
+  async userDecrypt(
+    handleContractPairs: { handle: string | Uint8Array; contractAddress: string }[],
+    _privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ): Promise<Record<string, MockClearValue>> {
+    const eip712 = this.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+    const signer = ethers.verifyTypedData(
+      eip712.domain,
+      USER_DECRYPT_REQUEST_TYPES,
+      eip712.message,
+      signature.startsWith('0x') ? signature : `0x${signature}`
+    );
+    if (signer.toLowerCase() !== userAddress.toLowerCase()) {
+      throw new RelayerError(`Invalid EIP-712 signature: signed by ${signer}, expected ${userAddress}`);
+    }
+
+    const expiresAt = (Number(startTimestamp) + Number(durationDays) * 24 * 60 * 60) * 1000;
+    if (Date.now() >= expiresAt) {
+      throw new RelayerError('User decryption authorization expired');
+    }
+
+    const results: Record<string, MockClearValue> = {};
+    for (const { handle, contractAddress } of handleContractPairs) {
+      if (!contractAddresses.some(address => address.toLowerCase() === contractAddress.toLowerCase())) {
+        throw new RelayerError(`Contract ${contractAddress} is not covered by the user decryption authorization`);
+      }
+      if (contractAddress.toLowerCase() === userAddress.toLowerCase()) {
+        throw new RelayerError(`userAddress ${userAddress} should not be equal to contractAddress when requesting user decryption`);
+      }
+      const key = typeof handle === 'string' ? handle : ethers.hexlify(handle);
+      results[key] = this.requireClearValue(key);
+    }
+    return results;
+  }
+
+  /**
+   * Clear values with a decryption proof signed by the mock KMS signers
+   */
+  async publicDecrypt(handles: (string | Uint8Array)[]) {
+    const keys = handles.map(handle => (typeof handle === 'string' ? handle : ethers.hexlify(handle)));
+    const clearValues: Record<string, MockClearValue> = {};
+    for (const key of keys) {
+      clearValues[key] = this.requireClearValue(key);
+    }
+
+    const abiEncodedClearValues = abiEncodeClearValues(keys, clearValues);
+    const extraData = '0x';
+    const signatures = await Promise.all(this.kmsSigners.map(signer => signer.signTypedData(
+      this.decryptionDomain(this.network.gatewayChainId),
+      PUBLIC_DECRYPT_VERIFICATION_TYPES,
+      { ctHandles: keys.map(normalizeHandle), decryptedResult: abiEncodedClearValues, extraData }
+    )));
+
+    return {
+      clearValues,
+      abiEncodedClearValues,
+      // numSigners + KMS signatures + extraData, as built by the relayer SDK
+      decryptionProof: ethers.concat([ethers.toBeHex(signatures.length, 1), ...signatures, extraData]),
+    };
+  }
+
+  getPublicKey() {
+    return null;
+  }
+
+  getPublicParams() {
+    return null;
+  }
+
+  private async encrypt(contractAddress: string, userAddress: string, entries: MockInputEntry[]) {
+    const totalBits = entries.reduce((sum, entry) => sum + INPUT_TYPES[entry.method].bits, 0);
+    if (totalBits > MAX_INPUT_BITS) {
+      throw new InvalidInputError(`Packing more than ${MAX_INPUT_BITS} bits in a single input ciphertext is unsupported`);
+    }
+
+    const clearValues = entries.map(toClearWord);
+    const typeIds = entries.map(entry => INPUT_TYPES[entry.method].typeId);
+
+    // Stands in for the ciphertext - unique per call, reproducible per run
+    const ciphertext = ethers.AbiCoder.defaultAbiCoder().encode(
+      ['address', 'address', 'uint256', 'uint8[]', 'uint256[]'],
+      [contractAddress, userAddress, this.nonce++, typeIds, clearValues]
+    );
+    const handles = computeHandles(ciphertext, typeIds, this.network.aclContractAddress, this.network.chainId);
+
+    // Version byte, then the clear values the mock executor reads back
+    const extraData = ethers.concat(['0x00', ...clearValues.map(value => ethers.toBeHex(value, 32))]);
+    const signatures = await Promise.all(this.coprocessorSigners.map(signer => signer.signTypedData(
+      this.inputVerificationDomain(),
+      CIPHERTEXT_VERIFICATION_TYPES,
+      { ctHandles: handles, userAddress, contractAddress, contractChainId: this.network.chainId, extraData }
+    )));
+
+    entries.forEach((entry, index) => this.setClearValue(handles[index], toRelayerClearValue(entry, clearValues[index])));
+
+    // numHandles + numSigners + handles + signatures + extraData, as built by the relayer SDK
+    const inputProof = ethers.concat([
+      ethers.toBeHex(handles.length, 1),
+      ethers.toBeHex(signatures.length, 1),
+      ...handles,
+      ...signatures,
+      extraData,
+    ]);
+    return { handles: handles.map(handle => ethers.getBytes(handle)), inputProof: ethers.getBytes(inputProof) };
+  }
+
+  private requireClearValue(handle: string) {
+    const value = this.getClearValue(handle);
+    if (value === undefined) {
+      throw new InvalidHandleError(`Unknown handle ${handle} - the mock only decrypts handles it encrypted or was given with setClearValue()`);
+    }
+    return value;
+  }
+
+  private decryptionDomain(chainId: number) {
+    return { name: 'Decryption', version: '1', chainId, verifyingContract: this.network.verifyingContractAddressDecryption };
+  }
+
+  private inputVerificationDomain() {
+    return {
+      name: 'InputVerification',
+      version: '1',
+      chainId: this.network.gatewayChainId,
+      verifyingContract: this.network.verifyingContractAddressInputVerification,
+    };
+  }
+}
+
+interface MockInputEntry {
+  method: string;
+  value: unknown;
+}
+
+/**
+ * Records values like the relayer's input and hands them to the mock on encrypt()
+ */
+class MockEncryptedInput {
+  private run: (entries: MockInputEntry[]) => Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+  private entries: MockInputEntry[] = [];
+
+  constructor(run: MockEncryptedInput['run']) {
+    this.run = run;
+  }
+
+  addBool(value: boolean | number | bigint) {
+    return this.add('addBool', value);
+  }
+
+  add8(value: number | bigint) {
+    return this.add('add8', value);
+  }
+
+  add16(value: number | bigint) {
+    return this.add('add16', value);
+  }
+
+  add32(value: number | bigint) {
+    return this.add('add32', value);
+  }
+
+  add64(value: number | bigint) {
+    return this.add('add64', value);
+  }
+
+  add128(value: number | bigint) {
+    return this.add('add128', value);
+  }
+
+  add256(value: number | bigint) {
+    return this.add('add256', value);
+  }
+
+  addAddress(value: string) {
+    return this.add('addAddress', value);
+  }
+
+  getBits() {
+    return this.entries.map(entry => INPUT_TYPES[entry.method].bits);
+  }
+
+  encrypt() {
+    return this.run([...this.entries]);
+  }
+
+  private add(method: string, value: unknown) {
+    const bits = INPUT_TYPES[method].bits;
+    const clear = toClearWord({ method, value });
+    if (method !== 'addBool' && clear >= 1n << BigInt(bits)) {
+      throw new InvalidInputError(`The value exceeds the limit for ${bits}bits integer (${clear})`);
+    }
+    this.entries.push({ method, value });
+    return this;
+  }
+}
+
+/**
+ * Create an in-memory relayer instance - what initializeFheInstance({ mock: true }) uses
+ */
+export function createMockFhevmInstance(options?: MockFhevmOptions) {
+  return new MockFhevmInstance(options);
+}
+
+/**
+ * Input handles as computed by the relayer SDK and the coprocessor
+ */
+function computeHandles(ciphertext: string, typeIds: number[], aclContractAddress: string, chainId: number) {
+  const blobHash = ethers.keccak256(ethers.concat([RAW_CT_HASH_DOMAIN_SEPARATOR, ciphertext]));
+  const chainId32Bytes = ethers.toBeHex(chainId, 32);
+
+  return typeIds.map((typeId, index) => {
+    const hash = ethers.getBytes(ethers.keccak256(ethers.concat([
+      HANDLE_HASH_DOMAIN_SEPARATOR,
+      blobHash,
+      ethers.toBeHex(index, 1),
+      aclContractAddress,
+      chainId32Bytes,
+    ])));
+    // 21 bytes of hash | index | chain id (8 bytes) | FHE type | version
+    hash.set([index], 21);
+    hash.set(ethers.getBytes(chainId32Bytes).slice(24), 22);
+    hash.set([typeId, HANDLE_VERSION], 30);
+    return ethers.hexlify(hash);
+  });
+}
+
+function toClearWord({ method, value }: MockInputEntry): bigint {
+  if (method === 'addAddress') {
+    if (typeof value !== 'string' || !ethers.isAddress(value)) {
+      throw new InvalidInputError(`Invalid address: ${String(value)}`);
+    }
+    return BigInt(value);
+  }
+  if (method === 'addBool') {
+    return value === true || (typeof value !== 'boolean' && BigInt(value as any) !== 0n) ? 1n : 0n;
+  }
+  if (typeof value !== 'number' && typeof value !== 'bigint') {
+    throw new InvalidInputError(`Invalid value for ${method}: ${String(value)}`);
+  }
+  const clear = BigInt(value);
+  if (clear < 0n) {
+    throw new InvalidInputError(`Negative value for ${method}: ${value}`);
+  }
+  return clear;
+}
+
+/**
+ * Clear value in the shape the relayer returns for the type
+ */
+function toRelayerClearValue({ method }: MockInputEntry, word: bigint): MockClearValue {
+  if (method === 'addBool') return word !== 0n;
+  if (method === 'addAddress') return ethers.getAddress(ethers.toBeHex(word, 20));
+  return word;
+}
+
+function normalizeHandle(handle: string | Uint8Array) {
+  return ethers.hexlify(handle).toLowerCase();
+}
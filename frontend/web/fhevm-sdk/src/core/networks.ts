@@ -0,0 +1,108 @@
+/**
+ * FHEVM Network Presets - Universal SDK
+ * Host chain and gateway addresses for each supported network
+ */
+
+import { UnsupportedNetworkError } from './errors.js';
+
+export interface FhevmNetworkPreset {
+  name: string;
+  /** FHEVM host chain id */
+  chainId: number;
+  /** Gateway chain id */
+  gatewayChainId: number;
+  /** ACL contract (host chain) */
+  aclContractAddress: string;
+  /** KMS verifier contract (host chain) */
+  kmsContractAddress: string;
+  /** Input verifier contract (host chain) */
+  inputVerifierContractAddress: string;
+  /** Decryption contract (gateway chain) */
+  verifyingContractAddressDecryption: string;
+  /** Input verification contract (gateway chain) */
+  verifyingContractAddressInputVerification: string;
+  relayerUrl: string;
+  /** Default RPC endpoint for the host chain */
+  rpcUrl?: string;
+  /** No relayer serves this chain - clients use the mock instance, as with `mock: true` */
+  mockOnly?: boolean;
+}
+
+/**
+ * Sepolia testnet - same values as SepoliaConfig from the relayer SDK
+ */
+export const SEPOLIA_NETWORK: FhevmNetworkPreset = {
+  name: 'sepolia',
+  chainId: 11155111,
+  gatewayChainId: 10901,
+  aclContractAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+  kmsContractAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+  inputVerifierContractAddress: '0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0',
+  verifyingContractAddressDecryption: '0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478',
+  verifyingContractAddressInputVerification: '0x483b9dE06E4E4C7D35CCf5837A1668487406D955',
+  relayerUrl: 'https://relayer.testnet.zama.org',
+  rpcUrl: 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3',
+};
+
+/**
+ * Local Hardhat node running the @fhevm/hardhat-plugin mock contracts
+ * (see fhevmTemp/precompiled-fhevm-host-contracts-addresses.json).
+ * The plugin mocks the relayer inside Hardhat itself; a plain node serves no relayer
+ * endpoints, so this chain always runs on the SDK's mock instance.
+ */
+export const HARDHAT_NETWORK: FhevmNetworkPreset = {
+  name: 'hardhat',
+  chainId: 31337,
+  gatewayChainId: 55815,
+  aclContractAddress: '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
+  kmsContractAddress: '0x901F8942346f7AB3a01F6D7613119Bca447Bb030',
+  inputVerifierContractAddress: '0x36772142b74871f255CbD7A3e89B401d3e45825f',
+  verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+  verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+  relayerUrl: '',
+  rpcUrl: 'http://127.0.0.1:8545',
+  mockOnly: true,
+};
+
+const presets = new Map<number, FhevmNetworkPreset>([
+  [SEPOLIA_NETWORK.chainId, SEPOLIA_NETWORK],
+  [HARDHAT_NETWORK.chainId, HARDHAT_NETWORK],
+]);
+
+/**
+ * Register (or replace) the preset for a custom chain
+ */
+export function registerNetworkPreset(preset: FhevmNetworkPreset) {
+  presets.set(preset.chainId, preset);
+}
+
+export function getNetworkPreset(chainId: number): FhevmNetworkPreset | undefined {
+  return presets.get(chainId);
+}
+
+export function listNetworkPresets(): FhevmNetworkPreset[] {
+  return Array.from(presets.values());
+}
+
+/**
+ * Resolve a chainId or a caller-supplied preset to a preset
+ */
+export function resolveNetworkPreset(network: number | FhevmNetworkPreset): FhevmNetworkPreset {
+  if (typeof network !== 'number') {
+    return network;
+  }
+
+  const preset = presets.get(network);
+  if (!preset) {
+    throw new UnsupportedNetworkError(`No FHEVM network preset for chain ${network}. Register one with registerNetworkPreset().`);
+  }
+  return preset;
+}
+
+/**
+ * Build the relayer SDK instance config for a preset
+ */
+export function toRelayerConfig(preset: FhevmNetworkPreset) {
+  const { name, rpcUrl, mockOnly, ...config } = preset;
+  return config;
+}
@@ -0,0 +1,88 @@
+/**
+ * Node.js EIP-1193 Provider - Universal SDK
+ * Lets the relayer SDK act as a real account outside the browser
+ */
+
+import { ethers } from 'ethers';
+import { MissingSignerError } from './errors.js';
+import { withRetry } from './retry.js';
+
+type RpcRequest = { method: string; params?: any[] };
+
+/**
+ * EIP-1193 provider backed by an RPC URL and an optional ethers Signer.
+ * Account and signing methods go to the signer, everything else is forwarded to the RPC node.
+ */
+export class NodeEip1193Provider {
+  readonly provider: ethers.JsonRpcProvider;
+  readonly signer: ethers.Signer | null;
+
+  constructor(rpcUrl: string, signer?: ethers.Signer) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.signer = signer ? (signer.provider ? signer : signer.connect(this.provider)) : null;
+  }
+
+  async request({ method, params = [] }: RpcRequest): Promise<any> {
+    switch (method) {
+      case 'eth_chainId': {
+        const network = await this.provider.getNetwork();
+        return ethers.toQuantity(network.chainId);
+      }
+      case 'eth_accounts':
+      case 'eth_requestAccounts':
+        return this.signer ? [await this.signer.getAddress()] : [];
+      case 'eth_sendTransaction': {
+        const signer = await this.requireSigner(params[0]?.from);
+        // Never retried - a resent transaction could execute twice
+        const tx = await withRetry('sendTransaction', () => signer.sendTransaction(toTransactionRequest(params[0])));
+        return tx.hash;
+      }
+      case 'eth_signTypedData_v4': {
+        const signer = await this.requireSigner(params[0]);
+        const typedData = typeof params[1] === 'string' ? JSON.parse(params[1]) : params[1];
+        // ethers derives the domain type itself
+        const { EIP712Domain, ...types } = typedData.types;
+        return signer.signTypedData(typedData.domain, types, typedData.message);
+      }
+      case 'personal_sign': {
+        const signer = await this.requireSigner(params[1]);
+        return signer.signMessage(ethers.getBytes(params[0]));
+      }
+      default:
+        // Read methods (eth_call, eth_getCode, eth_blockNumber...) go straight to the node
+        return this.provider.send(method, params);
+    }
+  }
+
+  on() {}
+
+  removeListener() {}
+
+  private async requireSigner(from?: string) {
+    if (!this.signer) {
+      throw new MissingSignerError('No signer configured. Pass an ethers Wallet or Signer to sign and send transactions.');
+    }
+    if (from && ethers.getAddress(from) !== await this.signer.getAddress()) {
+      throw new MissingSignerError(`Requested account ${from} does not match the configured signer.`);
+    }
+    return this.signer;
+  }
+}
+
+/**
+ * Convert JSON-RPC transaction params (hex quantities) to an ethers TransactionRequest
+ */
+function toTransactionRequest(tx: Record<string, any>): ethers.TransactionRequest {
+  const quantity = (value?: string) => (value === undefined ? undefined : BigInt(value));
+
+  return {
+    to: tx.to,
+    data: tx.data ?? tx.input,
+    value: quantity(tx.value),
+    gasLimit: quantity(tx.gas),
+    gasPrice: quantity(tx.gasPrice),
+    maxFeePerGas: quantity(tx.maxFeePerGas),
+    maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+    nonce: tx.nonce === undefined ? undefined : Number(tx.nonce),
+  };
+}
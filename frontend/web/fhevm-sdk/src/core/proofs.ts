@@ -0,0 +1,46 @@
+/**
+ * FHEVM KMS Proof Check - Universal SDK
+ * Dry-runs a public decryption proof against the KMS verifier before any transaction
+ */
+
+import { ethers } from 'ethers';
+import { IKMSVerifier__factory } from '../typechain/factories/IKMSVerifier__factory.js';
+import { toFhevmError } from './errors.js';
+import { decodeRevert, isCallException } from './revert.js';
+
+export interface ProofVerificationResult {
+  /** The KMS verifier accepted the proof - FHE.checkSignatures would pass */
+  valid: boolean;
+  /** Why the proof was refused */
+  reason?: string;
+  /** Decoded custom error of the revert, when the verifier raised a known one */
+  revert?: { name: string; args: unknown[] };
+}
+
+/**
+ * Call IKMSVerifier.verifyDecryptionEIP712KMSSignatures with eth_call.
+ * Reverts are reported in the result; RPC failures are thrown.
+ */
+export async function queryProofVerification(
+  runner: ethers.ContractRunner,
+  kmsVerifierAddress: string,
+  handles: string[],
+  abiEncodedClearValues: string,
+  decryptionProof: string
+): Promise<ProofVerificationResult> {
+  const kmsVerifier = IKMSVerifier__factory.connect(kmsVerifierAddress, runner);
+
+  try {
+    const valid = await kmsVerifier.verifyDecryptionEIP712KMSSignatures.staticCall(
+      handles,
+      abiEncodedClearValues,
+      decryptionProof
+    );
+    return valid ? { valid } : { valid, reason: 'KMS verifier returned false' };
+  } catch (error) {
+    if (!isCallException(error)) {
+      throw toFhevmError(error);
+    }
+    return { valid: false, ...decodeRevert(error) };
+  }
+}
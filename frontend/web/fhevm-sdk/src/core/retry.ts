@@ -0,0 +1,174 @@
+/**
+ * FHEVM Retry Policy - Universal SDK
+ * Timeouts and jittered exponential backoff for relayer and RPC calls
+ */
+
+import { AbortedError, TimeoutError, isFhevmError, toFhevmError } from './errors.js';
+
+export type RetryOperation =
+  | 'initSDK'
+  | 'createInstance'
+  | 'userDecrypt'
+  | 'publicDecrypt'
+  | 'encrypt'
+  | 'rpcRead'
+  | 'sendTransaction';
+
+export interface RetryPolicy {
+  /** Attempts after the first one */
+  retries: number;
+  /** Time limit of each attempt in ms, 0 for none */
+  timeoutMs: number;
+  /** Backoff before the first retry, doubled on each retry */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Safe to repeat - operations that are not are never retried, whatever `retries` says */
+  idempotent: boolean;
+}
+
+export interface RetryAttemptInfo {
+  operation: RetryOperation;
+  /** Attempt that just failed, starting at 1 */
+  attempt: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export interface RetryOptions extends Partial<RetryPolicy> {
+  signal?: AbortSignal;
+  /** Called before each retry */
+  onRetry?: (info: RetryAttemptInfo) => void;
+}
+
+export type RetryPolicyOverrides = Partial<Record<RetryOperation, Partial<RetryPolicy>>>;
+
+export const DEFAULT_RETRY_POLICIES: Record<RetryOperation, RetryPolicy> = {
+  initSDK: { retries: 2, timeoutMs: 60_000, baseDelayMs: 1_000, maxDelayMs: 8_000, idempotent: true },
+  createInstance: { retries: 2, timeoutMs: 30_000, baseDelayMs: 1_000, maxDelayMs: 8_000, idempotent: true },
+  userDecrypt: { retries: 3, timeoutMs: 60_000, baseDelayMs: 1_000, maxDelayMs: 10_000, idempotent: true },
+  publicDecrypt: { retries: 3, timeoutMs: 60_000, baseDelayMs: 1_000, maxDelayMs: 10_000, idempotent: true },
+  // Encrypting again only produces a fresh ciphertext and proof
+  encrypt: { retries: 2, timeoutMs: 60_000, baseDelayMs: 500, maxDelayMs: 5_000, idempotent: true },
+  rpcRead: { retries: 3, timeoutMs: 10_000, baseDelayMs: 1_000, maxDelayMs: 8_000, idempotent: true },
+  // A resent transaction can execute twice
+  sendTransaction: { retries: 0, timeoutMs: 0, baseDelayMs: 0, maxDelayMs: 0, idempotent: false },
+};
+
+/**
+ * Default policy of an operation with overrides applied left to right
+ */
+export function resolveRetryPolicy(operation: RetryOperation, ...overrides: (Partial<RetryPolicy> | undefined)[]): RetryPolicy {
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICIES[operation] };
+  for (const override of overrides) {
+    for (const [key, value] of Object.entries(override ?? {})) {
+      if (value !== undefined) (policy as any)[key] = value;
+    }
+  }
+  return policy;
+}
+
+const TRANSIENT_ETHERS_CODES = ['NETWORK_ERROR', 'SERVER_ERROR', 'TIMEOUT'];
+
+/**
+ * Transient failures worth another attempt - never user rejections, ACL refusals or bad input
+ */
+export function isRetryableError(error: unknown): boolean {
+  const fhevmError = toFhevmError(error);
+  if (fhevmError.code === 'RELAYER_UNAVAILABLE' || fhevmError.code === 'TIMEOUT') {
+    return true;
+  }
+  if (fhevmError.code !== 'UNKNOWN') {
+    return false;
+  }
+  return TRANSIENT_ETHERS_CODES.includes((fhevmError.cause as any)?.code);
+}
+
+/**
+ * Full-jitter exponential backoff before retry number `retry` (starting at 1)
+ */
+export function backoffDelay(retry: number, policy: Pick<RetryPolicy, 'baseDelayMs' | 'maxDelayMs'>): number {
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(Math.random() * cap);
+}
+
+/**
+ * Run `fn` under the operation's policy. `fn` gets a signal that aborts on timeout
+ * or when the caller's signal aborts. The last error is rethrown as is.
+ */
+export async function withRetry<T>(
+  operation: RetryOperation,
+  fn: (signal: AbortSignal) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const { signal, onRetry, ...overrides } = options;
+  const policy = resolveRetryPolicy(operation, overrides);
+  const retries = policy.idempotent ? Math.max(0, policy.retries) : 0;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal, operation);
+    try {
+      return await runAttempt(operation, fn, policy.timeoutMs, signal);
+    } catch (error) {
+      if (attempt > retries || isFhevmError(error, 'ABORTED') || !isRetryableError(error)) {
+        throw error;
+      }
+      const delayMs = backoffDelay(attempt, policy);
+      onRetry?.({ operation, attempt, delayMs, error });
+      await sleep(delayMs, signal, operation);
+    }
+  }
+}
+
+async function runAttempt<T>(
+  operation: RetryOperation,
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort = () => {};
+  const interrupted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      controller.abort(signal?.reason);
+      reject(new AbortedError(`${operation} aborted`, { cause: signal?.reason }));
+    };
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new TimeoutError(`${operation} timed out after ${timeoutMs} ms`));
+      }, timeoutMs);
+    }
+  });
+  signal?.addEventListener('abort', onAbort);
+  // The losing promise must not surface as an unhandled rejection
+  interrupted.catch(() => {});
+
+  try {
+    return await Promise.race([fn(controller.signal), interrupted]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined, operation: RetryOperation) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortedError(`${operation} aborted`, { cause: signal?.reason }));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function throwIfAborted(signal: AbortSignal | undefined, operation: RetryOperation) {
+  if (signal?.aborted) {
+    throw new AbortedError(`${operation} aborted`, { cause: signal.reason });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * FHEVM Revert Decoding - Universal SDK
+ * Turns CALL_EXCEPTION errors into a reason and the custom error that caused them
+ */
+
+import { ethers } from 'ethers';
+
+export interface DecodedRevert {
+  /** Revert string, or the custom error with its args */
+  reason: string;
+  /** Custom error (or Error/Panic) of the revert, when known */
+  revert?: { name: string; args: unknown[] };
+}
+
+/**
+ * Errors raised by the FHEVM host contracts (ACL, InputVerifier, KMSVerifier) and the
+ * OpenZeppelin ECDSA library they use - they bubble up through any contract using FHE
+ */
+const FHEVM_HOST_ERRORS = new ethers.Interface([
+  'error KMSInvalidSigner(address invalidSigner)',
+  'error KMSSignatureThresholdNotReached(uint256 numSignatures)',
+  'error KMSZeroSignature()',
+  'error EmptyDecryptionProof()',
+  'error DeserializingDecryptionProofFail()',
+  'error InvalidSigner(address signerRecovered)',
+  'error SignatureThresholdNotReached(uint256 numSignatures)',
+  'error ZeroSignature()',
+  'error EmptyInputProof()',
+  'error DeserializingInputProofFail()',
+  'error InvalidChainId()',
+  'error InvalidIndex()',
+  'error InvalidInputHandle()',
+  'error InvalidHandleVersion()',
+  'error SenderNotAllowed(address sender)',
+  'error ECDSAInvalidSignature()',
+  'error ECDSAInvalidSignatureLength(uint256 length)',
+  'error ECDSAInvalidSignatureS(bytes32 s)',
+]);
+
+/**
+ * Whether an error is a revert (as opposed to an RPC or wallet failure)
+ */
+export function isCallException(error: unknown) {
+  return (error as any)?.code === 'CALL_EXCEPTION';
+}
+
+/**
+ * Decode a CALL_EXCEPTION with the given interfaces first, then the host contract errors
+ */
+export function decodeRevert(error: unknown, interfaces: ethers.Interface[] = []): DecodedRevert {
+  const err = error as any;
+
+  if (err?.data && err.data !== '0x') {
+    for (const iface of [...interfaces, FHEVM_HOST_ERRORS]) {
+      const parsed = iface.parseError(err.data);
+      if (parsed) {
+        return toDecoded(parsed.name, Array.from(parsed.args));
+      }
+    }
+  }
+  if (err?.revert) {
+    // Error(string) and Panic(uint256), or a custom error from the contract's own ABI
+    return toDecoded(err.revert.name, Array.from(err.revert.args ?? []));
+  }
+  return { reason: err?.reason ?? err?.shortMessage ?? 'Execution reverted' };
+}
+
+function toDecoded(name: string, args: unknown[]): DecodedRevert {
+  const reason = name === 'Error' ? String(args[0]) : `${name}(${args.map(String).join(', ')})`;
+  return { reason, revert: { name, args } };
+}
@@ -0,0 +1,125 @@
+/**
+ * FHEVM Store - Universal SDK
+ * Observable instance, wallet and operation state for any UI layer
+ */
+
+import { FhevmError, toFhevmError } from './errors.js';
+
+export type FhevmStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export type PendingOperationKind = 'encrypt' | 'userDecrypt' | 'publicDecrypt' | 'verify';
+
+export interface PendingOperation {
+  id: number;
+  kind: PendingOperationKind;
+  /** Values encrypted or handles decrypted/verified */
+  count?: number;
+  startedAt: number;
+}
+
+export interface WalletState {
+  address: string;
+  chainId: number;
+  isConnected: boolean;
+  isConnecting: boolean;
+  error: string;
+}
+
+export interface FhevmState {
+  /** Relayer instance status */
+  status: FhevmStatus;
+  /** Why the last initialization failed */
+  error: FhevmError | null;
+  /** Network preset name and chain of the instance */
+  network: string | null;
+  chainId: number | null;
+  wallet: WalletState;
+  /** Encrypt/decrypt/verify calls in flight */
+  operations: PendingOperation[];
+}
+
+export type FhevmStoreListener = (state: FhevmState) => void;
+
+export const INITIAL_WALLET_STATE: WalletState = {
+  address: '',
+  chainId: 0,
+  isConnected: false,
+  isConnecting: false,
+  error: '',
+};
+
+/**
+ * Minimal external store - `getSnapshot` returns the same object until something changes,
+ * so it plugs straight into useSyncExternalStore, Vue refs or a CLI progress printer.
+ */
+export class FhevmStore {
+  private state: FhevmState = {
+    status: 'idle',
+    error: null,
+    network: null,
+    chainId: null,
+    wallet: INITIAL_WALLET_STATE,
+    operations: [],
+  };
+  private listeners = new Set<FhevmStoreListener>();
+  private nextOperationId = 1;
+
+  getSnapshot = (): FhevmState => this.state;
+
+  /**
+   * Listen for state changes. Returns the unsubscribe function.
+   */
+  subscribe = (listener: FhevmStoreListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  setState(update: Partial<FhevmState> | ((state: FhevmState) => Partial<FhevmState>)) {
+    const patch = typeof update === 'function' ? update(this.state) : update;
+    this.state = { ...this.state, ...patch };
+    for (const listener of Array.from(this.listeners)) {
+      listener(this.state);
+    }
+  }
+
+  setWallet(wallet: Partial<WalletState>) {
+    this.setState(state => ({ wallet: { ...state.wallet, ...wallet } }));
+  }
+
+  /**
+   * Mark an operation as pending while `fn` runs
+   */
+  async trackOperation<T>(kind: PendingOperationKind, fn: () => Promise<T>, count?: number): Promise<T> {
+    const operation: PendingOperation = { id: this.nextOperationId++, kind, count, startedAt: Date.now() };
+    this.setState(state => ({ operations: [...state.operations, operation] }));
+    try {
+      return await fn();
+    } finally {
+      this.setState(state => ({ operations: state.operations.filter(pending => pending.id !== operation.id) }));
+    }
+  }
+
+  /**
+   * Track instance initialization in `status`
+   */
+  async trackInitialization<T>(fn: () => Promise<T>): Promise<T> {
+    this.setState({ status: 'loading', error: null });
+    try {
+      const result = await fn();
+      this.setState({ status: 'ready' });
+      return result;
+    } catch (error) {
+      this.setState({ status: 'error', error: toFhevmError(error) });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Whether an operation of `kind` (any kind if omitted) is in flight
+ */
+export function isOperationPending(state: FhevmState, kind?: PendingOperationKind) {
+  return state.operations.some(operation => kind === undefined || operation.kind === kind);
+}
@@ -0,0 +1,53 @@
+/**
+ * FHEVM Telemetry - Universal SDK
+ * Timing events for init, encrypt, decrypt and verify, sent to app-provided hooks
+ */
+
+import { FhevmErrorCode, toFhevmError } from './errors.js';
+
+export type TelemetryOperation = 'init' | 'encrypt' | 'userDecrypt' | 'publicDecrypt' | 'verify';
+
+export interface TelemetryEvent {
+  operation: TelemetryOperation;
+  /** Wall-clock time of the whole operation, retries included */
+  durationMs: number;
+  success: boolean;
+  /** Error code when the operation failed */
+  errorCode?: FhevmErrorCode;
+  /** Values encrypted or handles decrypted/verified */
+  count?: number;
+  /** Network preset name */
+  network?: string;
+}
+
+export type TelemetryHook = (event: TelemetryEvent) => void;
+
+/**
+ * Time `fn` and report it to `hook`. Hook failures never affect the operation.
+ */
+export async function trackOperation<T>(
+  hook: TelemetryHook | undefined,
+  operation: TelemetryOperation,
+  fn: () => Promise<T>,
+  details: Pick<TelemetryEvent, 'count' | 'network'> = {}
+): Promise<T> {
+  if (!hook) return fn();
+
+  const emit = (event: TelemetryEvent) => {
+    try {
+      hook(event);
+    } catch {
+      // Metrics must not break decryption
+    }
+  };
+
+  const start = Date.now();
+  try {
+    const result = await fn();
+    emit({ operation, durationMs: Date.now() - start, success: true, ...details });
+    return result;
+  } catch (error) {
+    emit({ operation, durationMs: Date.now() - start, success: false, errorCode: toFhevmError(error).code, ...details });
+    throw error;
+  }
+}
@@ -0,0 +1,349 @@
+/**
+ * FHEVM Transaction Tracker - Universal SDK
+ * Follows transactions through mining, confirmations, replacement, drops and reorgs
+ */
+
+import { ethers } from 'ethers';
+import { TransactionFailedError, toFhevmError } from './errors.js';
+import { FhevmLogger, getLogger } from './logger.js';
+
+export type TransactionStatus =
+  | 'submitted'
+  | 'mined'
+  | 'confirmed'
+  | 'failed'
+  | 'replaced'
+  | 'dropped'
+  | 'reorged';
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string;
+  nonce: number;
+  /** Call of the transaction, kept to tell a repriced replacement from another call */
+  to: string | null;
+  data: string;
+  /** Wei, as a decimal string so it survives JSON */
+  value: string;
+  /** What the transaction does, for the UI - e.g. the contract method */
+  label?: string;
+  status: TransactionStatus;
+  submittedAt: number;
+  /** Block the transaction was pending since, where the replacement scan starts */
+  startBlock: number;
+  blockNumber?: number;
+  blockHash?: string;
+  confirmations: number;
+  /** Transaction that took the nonce, when known */
+  replacedBy?: string;
+  /** Same call at a higher fee, a cancellation (0-value self-transfer), or anything else */
+  replacement?: 'repriced' | 'cancelled' | 'replaced';
+}
+
+/**
+ * localStorage-compatible storage for pending transactions
+ */
+export interface TransactionStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export interface TransactionTrackerOptions {
+  /** Confirmations before a transaction counts as confirmed (default 1) */
+  confirmations?: number;
+  /** Where pending transactions survive a reload (defaults to localStorage when available, null to disable) */
+  storage?: TransactionStorage | null;
+  storageKey?: string;
+  pollIntervalMs?: number;
+  /** A transaction unknown to the node for this long is dropped (default 10 minutes) */
+  dropAfterMs?: number;
+  logger?: FhevmLogger;
+}
+
+export type TransactionListener = (transaction: TrackedTransaction, transactions: TrackedTransaction[]) => void;
+
+const ACTIVE_STATUSES: TransactionStatus[] = ['submitted', 'mined', 'reorged'];
+
+/**
+ * Tracks sent transactions by polling the provider. Listeners receive every status
+ * change; getSnapshot() works with useSyncExternalStore like FhevmStore.
+ */
+export class TransactionTracker {
+  private provider: ethers.Provider;
+  private options: Required<Omit<TransactionTrackerOptions, 'storage' | 'logger'>>;
+  private storage: TransactionStorage | null;
+  private logger: FhevmLogger;
+  private transactions: TrackedTransaction[] = [];
+  private listeners = new Set<TransactionListener>();
+  /** Last block searched for a replacement, per hash */
+  private scannedBlocks = new Map<string, number>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private polling = false;
+  private stopped = false;
+
+  constructor(provider: ethers.Provider, options: TransactionTrackerOptions = {}) {
+    this.provider = provider;
+    this.options = {
+      confirmations: options.confirmations ?? 1,
+      storageKey: options.storageKey ?? 'fhevm:transactions',
+      pollIntervalMs: options.pollIntervalMs ?? 4_000,
+      dropAfterMs: options.dropAfterMs ?? 10 * 60_000,
+    };
+    this.storage = options.storage !== undefined ? options.storage : defaultStorage();
+    this.logger = options.logger ?? getLogger();
+  }
+
+  getSnapshot = (): TrackedTransaction[] => this.transactions;
+
+  /**
+   * Listen for status changes. Returns the unsubscribe function.
+   */
+  subscribe = (listener: TransactionListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  get(hash: string) {
+    return this.transactions.find(transaction => transaction.hash === hash);
+  }
+
+  /**
+   * Start following a sent transaction
+   */
+  async track(tx: ethers.TransactionResponse, label?: string): Promise<TrackedTransaction> {
+    const existing = this.get(tx.hash);
+    if (existing) return existing;
+
+    const transaction: TrackedTransaction = {
+      hash: tx.hash,
+      chainId: Number(tx.chainId),
+      from: tx.from,
+      nonce: tx.nonce,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value.toString(),
+      label,
+      status: 'submitted',
+      submittedAt: Date.now(),
+      startBlock: await this.provider.getBlockNumber(),
+      confirmations: 0,
+    };
+    this.update(transaction);
+    this.stopped = false;
+    this.schedule(0);
+    return transaction;
+  }
+
+  /**
+   * Pick up the pending transactions persisted on this chain, e.g. after a page reload
+   */
+  async resume(): Promise<TrackedTransaction[]> {
+    const chainId = Number((await this.provider.getNetwork()).chainId);
+    const resumed = this.load().filter(transaction => transaction.chainId === chainId && !this.get(transaction.hash));
+    for (const transaction of resumed) {
+      this.update(transaction);
+    }
+    this.stopped = false;
+    if (resumed.length > 0) this.schedule(0);
+    return resumed;
+  }
+
+  /**
+   * Resolve once the transaction - or the repriced transaction that replaced it - is
+   * confirmed. Rejects when it fails, is dropped or is replaced by another call.
+   */
+  wait(hash: string): Promise<TrackedTransaction> {
+    return new Promise((resolve, reject) => {
+      let followed = hash;
+      const check = (transaction: TrackedTransaction | undefined) => {
+        if (!transaction || transaction.hash !== followed) return;
+
+        if (transaction.status === 'confirmed') {
+          unsubscribe();
+          resolve(transaction);
+        } else if (transaction.status === 'replaced' && transaction.replacement === 'repriced' && transaction.replacedBy) {
+          followed = transaction.replacedBy;
+          check(this.get(followed));
+        } else if (transaction.status === 'failed' || transaction.status === 'dropped' || transaction.status === 'replaced') {
+          unsubscribe();
+          const detail = transaction.replacement ? ` (${transaction.replacement})` : '';
+          reject(new TransactionFailedError(`Transaction ${transaction.hash} ${transaction.status}${detail}`, { hash: transaction.hash }));
+        }
+      };
+      const unsubscribe = this.subscribe(check);
+      check(this.get(hash));
+    });
+  }
+
+  /**
+   * Forget transactions that reached a final status
+   */
+  clearFinished() {
+    this.transactions = this.transactions.filter(transaction => ACTIVE_STATUSES.includes(transaction.status));
+    this.persist();
+  }
+
+  /**
+   * Stop polling. Tracked transactions stay in storage for the next resume().
+   */
+  stop() {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private schedule(delayMs = this.options.pollIntervalMs) {
+    if (this.timer || this.polling) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.poll();
+    }, delayMs);
+  }
+
+  private async poll() {
+    this.polling = true;
+    try {
+      const blockNumber = await this.provider.getBlockNumber();
+      for (const transaction of this.transactions.filter(tracked => ACTIVE_STATUSES.includes(tracked.status))) {
+        await this.refresh(transaction, blockNumber);
+      }
+    } catch (error) {
+      // Try again on the next tick - the node or the network may be back by then
+      this.logger.warn('Transaction tracker poll failed', toFhevmError(error));
+    } finally {
+      this.polling = false;
+    }
+
+    if (!this.stopped && this.transactions.some(transaction => ACTIVE_STATUSES.includes(transaction.status))) {
+      this.schedule();
+    }
+  }
+
+  private async refresh(transaction: TrackedTransaction, blockNumber: number) {
+    const receipt = await this.provider.getTransactionReceipt(transaction.hash);
+
+    if (receipt) {
+      if (receipt.status === 0) {
+        this.update({ ...transaction, status: 'failed', blockNumber: receipt.blockNumber, blockHash: receipt.blockHash });
+        return;
+      }
+
+      const confirmations = blockNumber - receipt.blockNumber + 1;
+      const status = confirmations >= this.options.confirmations ? 'confirmed' : 'mined';
+      if (
+        transaction.blockHash !== receipt.blockHash ||
+        transaction.confirmations !== confirmations ||
+        transaction.status !== status
+      ) {
+        this.update({ ...transaction, status, blockNumber: receipt.blockNumber, blockHash: receipt.blockHash, confirmations });
+      }
+      return;
+    }
+
+    if (transaction.blockHash) {
+      // Its block left the canonical chain - back to pending until mined again
+      this.update({ ...transaction, status: 'reorged', blockNumber: undefined, blockHash: undefined, confirmations: 0 });
+      return;
+    }
+
+    const minedNonce = await this.provider.getTransactionCount(transaction.from, 'latest');
+    if (minedNonce > transaction.nonce) {
+      await this.findReplacement(transaction, blockNumber);
+      return;
+    }
+
+    if (Date.now() - transaction.submittedAt > this.options.dropAfterMs && !(await this.provider.getTransaction(transaction.hash))) {
+      this.update({ ...transaction, status: 'dropped' });
+    }
+  }
+
+  /**
+   * The nonce was used by another transaction - look for it in the blocks since submission
+   */
+  private async findReplacement(transaction: TrackedTransaction, blockNumber: number) {
+    let next = (this.scannedBlocks.get(transaction.hash) ?? transaction.startBlock - 1) + 1;
+
+    for (; next <= blockNumber; next++) {
+      const block = await this.provider.getBlock(next, true);
+      const replacement = block?.prefetchedTransactions.find(tx =>
+        tx.from.toLowerCase() === transaction.from.toLowerCase() && tx.nonce === transaction.nonce
+      );
+      if (!replacement) continue;
+
+      this.scannedBlocks.delete(transaction.hash);
+      this.update({
+        ...transaction,
+        status: 'replaced',
+        replacedBy: replacement.hash,
+        replacement: classifyReplacement(transaction, replacement),
+      });
+      // Follow the replacement - a sped-up call is the same operation
+      await this.track(replacement, transaction.label);
+      return;
+    }
+
+    this.scannedBlocks.set(transaction.hash, blockNumber);
+  }
+
+  private update(transaction: TrackedTransaction) {
+    const index = this.transactions.findIndex(tracked => tracked.hash === transaction.hash);
+    this.transactions = index < 0
+      ? [...this.transactions, transaction]
+      : this.transactions.map(tracked => (tracked.hash === transaction.hash ? transaction : tracked));
+    this.persist();
+
+    for (const listener of Array.from(this.listeners)) {
+      listener(transaction, this.transactions);
+    }
+  }
+
+  private persist() {
+    if (!this.storage) return;
+    const active = this.transactions.filter(transaction => ACTIVE_STATUSES.includes(transaction.status));
+    // Keep what other chains left behind
+    const others = this.load().filter(stored => !this.transactions.some(tracked => tracked.hash === stored.hash));
+    try {
+      this.storage.setItem(this.options.storageKey, JSON.stringify([...others, ...active]));
+    } catch (error) {
+      this.logger.warn('Could not persist pending transactions', error);
+    }
+  }
+
+  private load(): TrackedTransaction[] {
+    try {
+      const stored = this.storage?.getItem(this.options.storageKey);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * Compared with the call recorded by track() - the node no longer returns the original once its nonce is taken
+ */
+function classifyReplacement(original: TrackedTransaction, replacement: ethers.TransactionResponse): TrackedTransaction['replacement'] {
+  if (
+    replacement.to?.toLowerCase() === original.to?.toLowerCase() &&
+    replacement.data.toLowerCase() === original.data?.toLowerCase() &&
+    replacement.value.toString() === original.value
+  ) {
+    return 'repriced';
+  }
+  if (replacement.to?.toLowerCase() === replacement.from.toLowerCase() && replacement.value === 0n) {
+    return 'cancelled';
+  }
+  return 'replaced';
+}
+
+function defaultStorage(): TransactionStorage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    // Sandboxed iframes throw on access
+    return null;
+  }
+}
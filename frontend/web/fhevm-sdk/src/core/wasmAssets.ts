@@ -0,0 +1,97 @@
+/**
+ * FHEVM WASM Assets - Universal SDK
+ * Where the relayer SDK's TFHE and KMS WASM files come from, with SHA-256 pinning
+ */
+
+import { FhevmError, WasmIntegrityError } from './errors.js';
+import { FhevmLogger } from './logger.js';
+
+export type WasmAssetName = 'tfhe' | 'kms';
+
+export interface WasmAssetOptions {
+  /** Base URL serving tfhe_bg.wasm and kms_lib_bg.wasm (defaults to DEFAULT_WASM_CDN_BASE_URL) */
+  cdnBaseUrl?: string;
+  /** Local copies, tried when the CDN fails and used alone in offline mode */
+  localPaths?: Partial<Record<WasmAssetName, string>>;
+  /** Expected SHA-256 of each file (hex). A pinned file is downloaded and checked before initSDK sees it. */
+  sha256?: Partial<Record<WasmAssetName, string>>;
+  /** Never contact the CDN - load the local copies only */
+  offline?: boolean;
+}
+
+/**
+ * Where the CDN serves the WASM files of the relayer SDK version loaded in index.html
+ */
+export const DEFAULT_WASM_CDN_BASE_URL = 'https://cdn.zama.org/relayer-sdk-js/0.3.0-5';
+
+export const WASM_FILE_NAMES: Record<WasmAssetName, string> = {
+  tfhe: 'tfhe_bg.wasm',
+  kms: 'kms_lib_bg.wasm',
+};
+
+export const DEFAULT_WASM_LOCAL_PATHS: Record<WasmAssetName, string> = {
+  tfhe: '/tfhe_bg.wasm',
+  kms: '/kms_lib_bg.wasm',
+};
+
+type InitSdk = (params?: { tfheParams?: any; kmsParams?: any }) => Promise<unknown>;
+
+/**
+ * Run the relayer SDK's initSDK from the CDN, then from local files, as the options allow
+ */
+export async function initRelayerWasm(initSDK: InitSdk, options: WasmAssetOptions = {}, logger?: FhevmLogger) {
+  const localPaths = { ...DEFAULT_WASM_LOCAL_PATHS, ...options.localPaths };
+
+  if (!options.offline) {
+    try {
+      if (options.cdnBaseUrl || options.sha256?.tfhe || options.sha256?.kms) {
+        const cdnBaseUrl = (options.cdnBaseUrl ?? DEFAULT_WASM_CDN_BASE_URL).replace(/\/+$/, '');
+        await initSDK(await resolveParams({
+          tfhe: `${cdnBaseUrl}/${WASM_FILE_NAMES.tfhe}`,
+          kms: `${cdnBaseUrl}/${WASM_FILE_NAMES.kms}`,
+        }, options.sha256));
+      } else {
+        // Nothing to pin - the relayer SDK loads from its own location
+        await initSDK();
+      }
+      logger?.info('FHEVM SDK initialized from CDN');
+      return;
+    } catch (cdnError) {
+      // Usually CORS or a blocked CDN - a local copy is checked against the same hashes
+      logger?.warn('CDN initialization failed, falling back to local WASM files', cdnError);
+    }
+  }
+
+  await initSDK(await resolveParams(localPaths, options.sha256));
+  logger?.info('FHEVM SDK initialized from local WASM files');
+}
+
+/**
+ * Pinned assets become verified bytes, the others stay URLs for initSDK to fetch
+ */
+async function resolveParams(urls: Record<WasmAssetName, string>, sha256: WasmAssetOptions['sha256'] = {}) {
+  const [tfheParams, kmsParams] = await Promise.all(
+    (['tfhe', 'kms'] as const).map(name => (sha256[name] ? fetchVerified(name, urls[name], sha256[name]!) : urls[name]))
+  );
+  return { tfheParams, kmsParams };
+}
+
+async function fetchVerified(name: WasmAssetName, url: string, expectedSha256: string): Promise<ArrayBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new FhevmError('RELAYER_UNAVAILABLE', `Failed to fetch ${url}: HTTP ${response.status}`);
+  }
+
+  const bytes = await response.arrayBuffer();
+  const actual = await sha256Hex(bytes);
+  const expected = expectedSha256.toLowerCase().replace(/^0x/, '');
+  if (actual !== expected) {
+    throw new WasmIntegrityError(`${WASM_FILE_NAMES[name]} from ${url} has SHA-256 ${actual}, expected ${expected}`);
+  }
+  return bytes;
+}
+
+async function sha256Hex(bytes: ArrayBuffer) {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,87 @@
+/**
+ * FHEVM Worker - Universal SDK
+ * Owns the relayer instance off the main thread - a Web Worker in the browser, worker_threads in Node.js
+ */
+
+import { FhevmNotInitializedError, toFhevmError } from '../errors.js';
+import { withRetry } from '../retry.js';
+import { initRelayerWasm } from '../wasmAssets.js';
+import { WorkerEncryptParams, WorkerInitParams, WorkerMessage, WorkerRequest, WorkerResponse, transferablesOf } from './protocol.js';
+
+type Reply = (response: WorkerResponse, transfer?: ArrayBuffer[]) => void;
+
+const isBrowserWorker = typeof (globalThis as any).WorkerGlobalScope !== 'undefined';
+
+let instance: any = null;
+
+/** Requests in progress, so the main thread can cancel them */
+const inFlight = new Map<number, AbortController>();
+
+function requireInstance() {
+  if (!instance) throw new FhevmNotInitializedError('Worker relayer instance not initialized.');
+  return instance;
+}
+
+// The relayer calls themselves cannot be interrupted; a cancelled one still runs to the end
+const handlers: Record<WorkerRequest['method'], (signal: AbortSignal, ...args: any[]) => unknown> = {
+  async init(signal, { config, wasm, retry }: WorkerInitParams) {
+    if (isBrowserWorker) {
+      const sdk = await import('@zama-fhe/relayer-sdk/web');
+      await withRetry('initSDK', () => initRelayerWasm(sdk.initSDK, wasm), { ...retry?.initSDK, signal });
+      instance = await withRetry('createInstance', () => sdk.createInstance(config as any), { ...retry?.createInstance, signal });
+    } else {
+      // Use eval to prevent bundlers from analyzing the Node.js build
+      const sdk = await eval('import("@zama-fhe/relayer-sdk/node")');
+      instance = await withRetry('createInstance', () => sdk.createInstance(config), { ...retry?.createInstance, signal });
+    }
+  },
+  encrypt(_signal, { contractAddress, userAddress, entries }: WorkerEncryptParams) {
+    const input = requireInstance().createEncryptedInput(contractAddress, userAddress);
+    for (const entry of entries) {
+      input[entry.method](entry.value);
+    }
+    return input.encrypt();
+  },
+  generateKeypair: () => requireInstance().generateKeypair(),
+  createEIP712: (_signal, ...args) => requireInstance().createEIP712(...args),
+  userDecrypt: (_signal, ...args) => requireInstance().userDecrypt(...args),
+  publicDecrypt: (_signal, handles) => requireInstance().publicDecrypt(handles),
+};
+
+async function handle(message: WorkerMessage, reply: Reply) {
+  if ('cancel' in message) {
+    inFlight.get(message.id)?.abort();
+    inFlight.delete(message.id);
+    return;
+  }
+
+  const { id, method, args } = message;
+  const controller = new AbortController();
+  inFlight.set(id, controller);
+  try {
+    const result = await handlers[method](controller.signal, ...args);
+    if (!controller.signal.aborted) reply({ id, result }, transferablesOf(result));
+  } catch (error) {
+    const fhevmError = toFhevmError(error);
+    if (!controller.signal.aborted) reply({ id, error: { code: fhevmError.code, message: fhevmError.message } });
+  } finally {
+    inFlight.delete(id);
+  }
+}
+
+async function start() {
+  if (isBrowserWorker) {
+    const scope = globalThis as any;
+    scope.addEventListener('message', (event: MessageEvent<WorkerMessage>) => {
+      handle(event.data, (response, transfer = []) => scope.postMessage(response, transfer));
+    });
+    return;
+  }
+
+  const { parentPort } = await eval('import("node:worker_threads")');
+  parentPort.on('message', (message: WorkerMessage) => {
+    handle(message, (response, transfer = []) => parentPort.postMessage(response, transfer));
+  });
+}
+
+start();
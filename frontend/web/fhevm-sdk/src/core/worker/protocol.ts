@@ -0,0 +1,65 @@
+/**
+ * FHEVM Worker Protocol - Universal SDK
+ * Messages between the main thread and the worker that owns the relayer instance
+ */
+
+import type { FhevmErrorCode } from '../errors.js';
+import type { RetryPolicyOverrides } from '../retry.js';
+import type { WasmAssetOptions } from '../wasmAssets.js';
+
+export type WorkerMethod = 'init' | 'encrypt' | 'generateKeypair' | 'createEIP712' | 'userDecrypt' | 'publicDecrypt';
+
+export interface WorkerRequest {
+  id: number;
+  method: WorkerMethod;
+  args: any[];
+}
+
+/**
+ * The caller gave up on request `id` - stop its retries and send no reply
+ */
+export interface WorkerCancel {
+  id: number;
+  cancel: true;
+}
+
+export type WorkerMessage = WorkerRequest | WorkerCancel;
+
+export type WorkerResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: { code: FhevmErrorCode; message: string } };
+
+export interface WorkerInitParams {
+  /** Relayer config - `network` must be an RPC URL, providers cannot cross threads */
+  config: Record<string, any>;
+  wasm?: WasmAssetOptions;
+  retry?: RetryPolicyOverrides;
+}
+
+export interface WorkerEncryptParams {
+  contractAddress: string;
+  userAddress: string;
+  /** Relayer input method (add32, addBool...) and value, in order */
+  entries: { method: string; value: unknown }[];
+}
+
+/**
+ * Buffers of the typed arrays in a result, so they are moved instead of copied
+ */
+export function transferablesOf(value: unknown): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+  const visit = (item: unknown) => {
+    if (ArrayBuffer.isView(item)) {
+      // Only views owning their whole buffer - never detach memory shared with something else
+      if (item.buffer instanceof ArrayBuffer && item.byteOffset === 0 && item.byteLength === item.buffer.byteLength) {
+        buffers.add(item.buffer);
+      }
+    } else if (Array.isArray(item)) {
+      item.forEach(visit);
+    } else if (item && typeof item === 'object') {
+      Object.values(item).forEach(visit);
+    }
+  };
+  visit(value);
+  return Array.from(buffers);
+}
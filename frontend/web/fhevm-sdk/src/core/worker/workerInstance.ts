@@ -0,0 +1,220 @@
+/**
+ * FHEVM Worker Instance - Universal SDK
+ * Main-thread stand-in for the relayer instance, forwarding every call to the worker
+ */
+
+import { AbortedError, FhevmError } from '../errors.js';
+import { WorkerEncryptParams, WorkerInitParams, WorkerMessage, WorkerMethod, WorkerResponse } from './protocol.js';
+
+interface WorkerPort {
+  postMessage(message: WorkerMessage): void;
+  terminate(): void;
+}
+
+export interface WorkerCallOptions {
+  /** Rejects the call and cancels it in the worker */
+  signal?: AbortSignal;
+}
+
+/**
+ * Trailing call options for `instance` - only the worker instance takes a signal,
+ * the relayer and mock instances get their usual arguments
+ */
+export function workerCallOptions(instance: unknown, signal?: AbortSignal): [WorkerCallOptions] | [] {
+  return instance instanceof WorkerRelayerInstance && signal ? [{ signal }] : [];
+}
+
+/**
+ * Same async surface as the relayer instance the SDK uses. generateKeypair and
+ * createEIP712 are synchronous on the real instance and return promises here.
+ * Calls taking a trailing WorkerCallOptions can be aborted.
+ */
+export class WorkerRelayerInstance {
+  private port: WorkerPort | null = null;
+  private pending = new Map<number, { resolve: (value: any) => void; reject: (error: unknown) => void }>();
+  private nextId = 1;
+
+  /**
+   * Start the worker and create the relayer instance inside it
+   */
+  static async spawn(params: WorkerInitParams, workerUrl?: string | URL) {
+    const instance = new WorkerRelayerInstance();
+    await instance.start(workerUrl);
+    try {
+      await instance.call('init', [params]);
+    } catch (error) {
+      instance.terminate();
+      throw error;
+    }
+    return instance;
+  }
+
+  createEncryptedInput(contractAddress: string, userAddress: string) {
+    return new WorkerEncryptedInput((params, signal) => this.call('encrypt', [params], signal), contractAddress, userAddress);
+  }
+
+  generateKeypair(): Promise<{ publicKey: string; privateKey: string }> {
+    return this.call('generateKeypair', []);
+  }
+
+  createEIP712(...args: any[]): Promise<any> {
+    return this.call('createEIP712', args);
+  }
+
+  /**
+   * The relayer's eight userDecrypt arguments, then optionally WorkerCallOptions
+   */
+  userDecrypt(...args: any[]): Promise<Record<string, any>> {
+    const options: WorkerCallOptions = args.length > 8 ? args.pop() ?? {} : {};
+    return this.call('userDecrypt', args, options.signal);
+  }
+
+  publicDecrypt(handles: string[], options: WorkerCallOptions = {}): Promise<any> {
+    return this.call('publicDecrypt', [handles], options.signal);
+  }
+
+  /**
+   * Stop the worker. Calls still in flight are rejected.
+   */
+  terminate() {
+    this.port?.terminate();
+    this.port = null;
+    this.failAll(new FhevmError('FHEVM_NOT_INITIALIZED', 'FHEVM worker terminated'));
+  }
+
+  private async start(workerUrl?: string | URL) {
+    const onMessage = (response: WorkerResponse) => this.settle(response);
+    const onError = (error: unknown) => this.failAll(new FhevmError('UNKNOWN', 'FHEVM worker crashed', { cause: error }));
+    // A dead worker never answers - nothing in flight may wait for it
+    const onExit = (exitCode: number) => {
+      this.port = null;
+      this.failAll(new FhevmError('UNKNOWN', `FHEVM worker exited with code ${exitCode}`));
+    };
+
+    if (typeof window !== 'undefined' && typeof Worker !== 'undefined') {
+      // Literal URL of the source file, which Vite bundles into the worker chunk
+      const worker = workerUrl
+        ? new Worker(workerUrl, { type: 'module' })
+        : new Worker(new URL('./fhevm.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = event => onMessage(event.data);
+      worker.onerror = onError;
+      worker.onmessageerror = onError;
+      this.port = worker;
+      return;
+    }
+
+    // Node.js runs the compiled worker next to the compiled module (dist/). A variable
+    // specifier keeps bundlers out; eval would fail in vm-based runners such as vitest.
+    const workerThreads = 'node:worker_threads';
+    const { Worker: NodeWorker } = await import(/* @vite-ignore */ /* webpackIgnore: true */ workerThreads);
+    const worker = new NodeWorker(workerUrl ?? new URL('./fhevm.worker.js', import.meta.url));
+    worker.on('message', onMessage);
+    worker.on('error', onError);
+    worker.on('messageerror', onError);
+    worker.on('exit', onExit);
+    this.port = worker;
+  }
+
+  private call<T = any>(method: WorkerMethod, args: any[], signal?: AbortSignal): Promise<T> {
+    if (!this.port) {
+      return Promise.reject(new FhevmError('FHEVM_NOT_INITIALIZED', 'FHEVM worker is not running'));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new AbortedError(`${method} aborted`, { cause: signal.reason }));
+    }
+
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        if (!this.pending.delete(id)) return;
+        this.port?.postMessage({ id, cancel: true });
+        reject(new AbortedError(`${method} aborted`, { cause: signal?.reason }));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const done = () => signal?.removeEventListener('abort', onAbort);
+      this.pending.set(id, {
+        resolve: value => { done(); resolve(value); },
+        reject: error => { done(); reject(error); },
+      });
+      this.port!.postMessage({ id, method, args });
+    });
+  }
+
+  private settle(response: WorkerResponse) {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+
+    if ('error' in response) {
+      // Only the code and message cross the thread boundary
+      pending.reject(new FhevmError(response.error.code, response.error.message));
+    } else {
+      pending.resolve(response.result);
+    }
+  }
+
+  private failAll(error: FhevmError) {
+    for (const { reject } of this.pending.values()) {
+      reject(error);
+    }
+    this.pending.clear();
+  }
+}
+
+/**
+ * Records the relayer input calls and runs them in the worker on encrypt()
+ */
+class WorkerEncryptedInput {
+  private run: (params: WorkerEncryptParams, signal?: AbortSignal) => Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }>;
+  private contractAddress: string;
+  private userAddress: string;
+  private entries: WorkerEncryptParams['entries'] = [];
+
+  constructor(run: WorkerEncryptedInput['run'], contractAddress: string, userAddress: string) {
+    this.run = run;
+    this.contractAddress = contractAddress;
+    this.userAddress = userAddress;
+  }
+
+  addBool(value: boolean | number | bigint) {
+    return this.add('addBool', value);
+  }
+
+  add8(value: number | bigint) {
+    return this.add('add8', value);
+  }
+
+  add16(value: number | bigint) {
+    return this.add('add16', value);
+  }
+
+  add32(value: number | bigint) {
+    return this.add('add32', value);
+  }
+
+  add64(value: number | bigint) {
+    return this.add('add64', value);
+  }
+
+  add128(value: number | bigint) {
+    return this.add('add128', value);
+  }
+
+  add256(value: number | bigint) {
+    return this.add('add256', value);
+  }
+
+  addAddress(value: string) {
+    return this.add('addAddress', value);
+  }
+
+  encrypt(options: WorkerCallOptions = {}) {
+    return this.run({ contractAddress: this.contractAddress, userAddress: this.userAddress, entries: this.entries }, options.signal);
+  }
+
+  private add(method: string, value: unknown) {
+    this.entries.push({ method, value });
+    return this;
+  }
+}
@@ -0,0 +1,56 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IKMSVerifier,
+  IKMSVerifierInterface,
+} from "../IKMSVerifier";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "bytes32[]",
+        name: "handlesList",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptedResult",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "verifyDecryptionEIP712KMSSignatures",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class IKMSVerifier__factory {
+  static readonly abi = _abi;
+  static createInterface(): IKMSVerifierInterface {
+    return new Interface(_abi) as IKMSVerifierInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IKMSVerifier {
+    return new Contract(address, _abi, runner) as unknown as IKMSVerifier;
+  }
+}
+
+
@@ -19,14 +19,6 @@ declare module '@zama-fhe/relayer-sdk/bundle' {
   export const SepoliaConfig: any;
 }
 
-// Vue module declaration (optional)
-declare module 'vue' {
-  export function ref<T>(value: T): { value: T };
-  export function computed<T>(fn: () => T): { value: T };
-  export function onUnmounted(fn: () => void): void;
-  export function watch<T>(source: () => T, callback: (newValue: T, oldValue: T) => void, options?: any): void;
-}
-
 export {};
 
 
@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest';
+import { chunkArray, runChunked } from '../src/core/batching.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('chunkArray', () => {
+  it('splits into chunks of at most `size`', () => {
+    expect(chunkArray([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunkArray([], 3)).toEqual([]);
+  });
+
+  it('rejects sizes that are not positive integers', () => {
+    expect(() => chunkArray([1], 0)).toThrow(RangeError);
+    expect(() => chunkArray([1], 1.5)).toThrow(RangeError);
+  });
+});
+
+describe('runChunked', () => {
+  it('returns results in chunk order whatever order chunks finish in', async () => {
+    const items = Array.from({ length: 10 }, (_, index) => index);
+    // Later chunks finish first
+    const results = await runChunked(items, async (chunk, index) => {
+      await sleep((4 - index) * 5);
+      return chunk.map(item => item * 10);
+    }, { chunkSize: 3, concurrency: 4 });
+
+    expect(results).toEqual([[0, 10, 20], [30, 40, 50], [60, 70, 80], [90]]);
+  });
+
+  it('keeps at most `concurrency` chunks in flight and reports progress', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const onProgress = vi.fn();
+
+    await runChunked(Array.from({ length: 9 }, (_, index) => index), async chunk => {
+      peak = Math.max(peak, ++inFlight);
+      await sleep(5);
+      inFlight--;
+      return chunk;
+    }, { chunkSize: 2, concurrency: 2, onProgress });
+
+    expect(peak).toBe(2);
+    expect(onProgress).toHaveBeenCalledTimes(5);
+    expect(onProgress).toHaveBeenLastCalledWith({ completed: 9, total: 9, chunksCompleted: 5, chunks: 5 });
+  });
+
+  it('starts no new chunk once aborted', async () => {
+    const controller = new AbortController();
+    const worker = vi.fn(async (chunk: number[], index: number) => {
+      if (index === 1) controller.abort();
+      return chunk;
+    });
+
+    await expect(runChunked([1, 2, 3, 4, 5], worker, { chunkSize: 1, concurrency: 1, signal: controller.signal }))
+      .rejects.toMatchObject({ code: 'ABORTED' });
+    expect(worker).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops picking up chunks after a failure', async () => {
+    const worker = vi.fn(async (chunk: number[], index: number) => {
+      if (index === 0) throw new Error('relayer down');
+      return chunk;
+    });
+
+    await expect(runChunked([1, 2, 3], worker, { chunkSize: 1, concurrency: 1 })).rejects.toThrow('relayer down');
+    expect(worker).toHaveBeenCalledTimes(1);
+  });
+});
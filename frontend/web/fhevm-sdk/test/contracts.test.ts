@@ -0,0 +1,369 @@
+import { ethers } from 'ethers';
+import { describe, expect, it, vi } from 'vitest';
+import { FhevmClient } from '../src/core/fhevm.js';
+import { FhevmContract, FhevmContractEvent } from '../src/core/contracts.js';
+import { parseHandle } from '../src/core/fheTypes.js';
+import { serializeEncryptedInput } from '../src/core/inputEnvelope.js';
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const ABI = [
+  {
+    type: 'function',
+    name: 'create',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'name', type: 'string', internalType: 'string' },
+      { name: 'amount', type: 'bytes32', internalType: 'externalEuint32' },
+      { name: 'inputProof', type: 'bytes', internalType: 'bytes' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'create',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'name', type: 'string', internalType: 'string' },
+      { name: 'amount', type: 'bytes32', internalType: 'externalEuint32' },
+      { name: 'flag', type: 'bytes32', internalType: 'externalEbool' },
+      { name: 'inputProof', type: 'bytes', internalType: 'bytes' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'function',
+    name: 'copy',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'source', type: 'bytes32', internalType: 'euint32' }],
+    outputs: [],
+  },
+];
+
+type Method<A extends any[]> = ethers.BaseContractMethod<A, void, ethers.ContractTransactionResponse>;
+
+/**
+ * ABI above as typechain types it - overloads are keyed by signature
+ */
+interface CreateContract extends ethers.BaseContract {
+  'create(string,bytes32,bytes)': Method<[name: string, amount: ethers.BytesLike, inputProof: ethers.BytesLike]>;
+  'create(string,bytes32,bytes32,bytes)': Method<[name: string, amount: ethers.BytesLike, flag: ethers.BytesLike, inputProof: ethers.BytesLike]>;
+  copy: Method<[source: ethers.BytesLike]>;
+}
+
+async function mockClient() {
+  const signer = ethers.Wallet.createRandom();
+  const client = new FhevmClient({ mock: true, signer });
+  await client.initialize();
+  return { client, contract: new ethers.Contract(CONTRACT, ABI, signer) };
+}
+
+async function mockContract(abi: readonly any[] = ABI) {
+  const { client, contract } = await mockClient();
+  return new FhevmContract(contract, CONTRACT, client, abi);
+}
+
+async function typedMockContract() {
+  const { client, contract } = await mockClient();
+  return new FhevmContract(contract as unknown as CreateContract, CONTRACT, client, ABI);
+}
+
+describe('FhevmContract.encryptArgs', () => {
+  it('picks the overload of a bare name by argument count', async () => {
+    const adapter = await mockContract();
+    const args = await adapter.encryptArgs('create', ['a', 5, true]);
+
+    expect(args).toHaveLength(4);
+    expect(parseHandle(args[1] as string).type).toBe('euint32');
+    expect(parseHandle(args[2] as string).type).toBe('ebool');
+    expect(ethers.isHexString(args[3])).toBe(true);
+  });
+
+  it('resolves a full signature', async () => {
+    const adapter = await typedMockContract();
+    const args = await adapter.encryptArgs('create(string,bytes32,bytes)', ['a', 5]);
+
+    expect(args).toHaveLength(3);
+    expect(parseHandle(args[1] as string).type).toBe('euint32');
+    expect(args[2]).not.toBe('0x');
+  });
+
+  it('throws on a signature or name the contract does not have', async () => {
+    const adapter = await mockContract();
+
+    await expect(adapter.encryptArgs('create(string,uint32)', ['a', 5])).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    await expect(adapter.encryptArgs('missing', [])).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+  });
+
+  it('throws when no overload takes that many arguments', async () => {
+    const adapter = await mockContract();
+
+    await expect(adapter.encryptArgs('create', ['a'])).rejects.toThrow('expects 2 or 3 argument(s)');
+    await expect(adapter.encryptArgs('create(string,bytes32,bytes)', ['a', 5, true])).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+  });
+
+  it('passes existing euint handles through unencrypted', async () => {
+    const adapter = await mockContract();
+    const handle = ethers.ZeroHash;
+
+    expect(await adapter.encryptArgs('copy', [handle])).toEqual([handle]);
+  });
+
+  it('encrypts nothing without the raw ABI', async () => {
+    const adapter = await mockContract([]);
+
+    expect(await adapter.encryptArgs('create(string,bytes32,bytes)', ['a', ethers.ZeroHash, '0x01'])).toEqual(['a', ethers.ZeroHash, '0x01']);
+  });
+});
+
+const HANDLE_A = '0x' + 'aa'.repeat(32);
+const HANDLE_B = '0x' + 'bb'.repeat(32);
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const READ_ABI = [
+  {
+    type: 'event',
+    name: 'Revealed',
+    anonymous: false,
+    inputs: [
+      { name: 'user', type: 'address', internalType: 'address', indexed: true },
+      { name: 'amount', type: 'bytes32', internalType: 'euint32', indexed: false },
+      { name: 'flags', type: 'bytes32[]', internalType: 'ebool[]', indexed: false },
+      { name: 'id', type: 'uint256', internalType: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'balanceOf',
+    stateMutability: 'view',
+    inputs: [{ name: 'user', type: 'address', internalType: 'address' }],
+    outputs: [{ name: '', type: 'bytes32', internalType: 'euint64' }],
+  },
+  {
+    type: 'function',
+    name: 'entry',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'amount', type: 'bytes32', internalType: 'euint32' },
+      { name: 'id', type: 'uint256', internalType: 'uint256' },
+    ],
+  },
+];
+
+const READ_INTERFACE = new ethers.Interface(READ_ABI);
+
+/**
+ * Log of a Revealed event, as the provider returns it
+ */
+function revealedLog(blockNumber: number) {
+  const { data, topics } = READ_INTERFACE.encodeEventLog('Revealed', [USER, HANDLE_A, [HANDLE_B], 7n]);
+  return {
+    address: CONTRACT,
+    data,
+    topics,
+    blockNumber,
+    blockHash: ethers.ZeroHash,
+    transactionHash: ethers.ZeroHash,
+    transactionIndex: 0,
+    index: 0,
+    removed: false,
+  };
+}
+
+/**
+ * Provider answering calls with `results` by method name, with one Revealed log
+ * and subscriptions the test fires by hand
+ */
+function fakeProvider(results: Record<string, unknown[]> = {}) {
+  const listeners: ((log: ethers.Log) => void)[] = [];
+  const provider: any = {
+    listeners,
+    async call(tx: ethers.TransactionRequest) {
+      const fragment = READ_INTERFACE.getFunction(String(tx.data).slice(0, 10))!;
+      return READ_INTERFACE.encodeFunctionResult(fragment, results[fragment.name]);
+    },
+    async getLogs() {
+      return [new ethers.Log(revealedLog(12) as any, provider)];
+    },
+    async on(_filter: unknown, listener: (log: ethers.Log) => void) {
+      listeners.push(listener);
+    },
+    async off(_filter: unknown, listener: (log: ethers.Log) => void) {
+      listeners.splice(listeners.indexOf(listener), 1);
+    },
+  };
+  return provider;
+}
+
+async function readContract(provider = fakeProvider(), abi: readonly any[] = READ_ABI) {
+  const client = new FhevmClient({ mock: true, signer: ethers.Wallet.createRandom() });
+  await client.initialize();
+  return new FhevmContract(new ethers.Contract(CONTRACT, READ_ABI, { provider }), CONTRACT, client, abi);
+}
+
+describe('FhevmContract handle decoding', () => {
+  it('wraps encrypted return values of a view method', async () => {
+    const adapter = await readContract(fakeProvider({ balanceOf: [HANDLE_A], entry: [HANDLE_B, 3n] }));
+
+    expect(await adapter.read('balanceOf', USER)).toEqual({ handle: HANDLE_A, type: 'euint64' });
+    expect(await adapter.read('entry')).toEqual([{ handle: HANDLE_B, type: 'euint32' }, 3n]);
+  });
+
+  it('wraps encrypted event args, including arrays, in past events', async () => {
+    const adapter = await readContract();
+    const [event] = await adapter.queryEvents('Revealed');
+
+    expect(event).toMatchObject({ name: 'Revealed', signature: 'Revealed(address,bytes32,bytes32[],uint256)', blockNumber: 12 });
+    expect(event.args).toEqual({
+      user: USER,
+      amount: { handle: HANDLE_A, type: 'euint32' },
+      flags: [{ handle: HANDLE_B, type: 'ebool' }],
+      id: 7n,
+    });
+  });
+
+  it('delivers decoded events to listeners until unsubscribed', async () => {
+    const provider = fakeProvider();
+    const adapter = await readContract(provider);
+    const received: FhevmContractEvent[] = [];
+
+    const stop = adapter.on('Revealed', event => received.push(event));
+    await vi.waitFor(() => expect(provider.listeners).toHaveLength(1));
+    provider.listeners[0](new ethers.Log(revealedLog(20) as any, provider));
+    await vi.waitFor(() => expect(received).toHaveLength(1));
+
+    expect(received[0].blockNumber).toBe(20);
+    expect(received[0].args.amount).toEqual({ handle: HANDLE_A, type: 'euint32' });
+
+    stop();
+    await vi.waitFor(() => expect(provider.listeners).toHaveLength(0));
+  });
+
+  it('leaves bytes32 values bare without the raw ABI', async () => {
+    const adapter = await readContract(fakeProvider({ balanceOf: [HANDLE_A] }), []);
+
+    expect(await adapter.read('balanceOf', USER)).toBe(HANDLE_A);
+    expect((await adapter.queryEvents('Revealed'))[0].args.amount).toBe(HANDLE_A);
+  });
+});
+
+const CREATE_INTERFACE = new ethers.Interface([...ABI, { type: 'error', name: 'NameTaken', inputs: [{ name: 'name', type: 'string' }] }]);
+
+/**
+ * Signer whose calls revert with `revertData`, or pass when it is undefined
+ */
+function fakeSigner(revertData?: string, provider: Pick<ethers.Provider, 'getNetwork'> | null = null) {
+  const wallet = ethers.Wallet.createRandom();
+  return {
+    provider,
+    getAddress: async () => wallet.address,
+    call: vi.fn(async (tx: ethers.TransactionRequest) => {
+      if (revertData !== undefined) throw CREATE_INTERFACE.makeError(revertData, tx as ethers.CallExceptionTransaction);
+      return '0x';
+    }),
+    estimateGas: vi.fn(async () => 100_000n),
+    sendTransaction: vi.fn(async () => {
+      throw new Error('not sent in tests');
+    }),
+  };
+}
+
+async function simulatingContract(signer: ReturnType<typeof fakeSigner>, initialize = true) {
+  const client = new FhevmClient({ mock: true, signer: ethers.Wallet.createRandom() });
+  if (initialize) await client.initialize();
+  const contract = new ethers.Contract(CONTRACT, CREATE_INTERFACE, signer as unknown as ethers.ContractRunner);
+  return new FhevmContract(contract, CONTRACT, client, ABI);
+}
+
+describe('FhevmContract.simulate', () => {
+  it('reports a call that would revert and refuses to send it', async () => {
+    const signer = fakeSigner(CREATE_INTERFACE.encodeErrorResult('NameTaken', ['a']));
+    const adapter = await simulatingContract(signer);
+
+    const report = await adapter.simulate('create', ['a', 5]);
+
+    expect(report).toMatchObject({
+      ok: false,
+      signature: 'create(string,bytes32,bytes)',
+      from: await signer.getAddress(),
+      reason: 'NameTaken(a)',
+      revert: { name: 'NameTaken', args: ['a'] },
+    });
+    expect(signer.estimateGas).not.toHaveBeenCalled();
+    await expect(adapter.sendSimulated(report)).rejects.toMatchObject({ code: 'INVALID_INPUT', message: 'create would revert: NameTaken(a)' });
+    expect(signer.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('decodes revert strings', async () => {
+    const revertString = ethers.concat([ethers.id('Error(string)').slice(0, 10), ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['closed'])]);
+    const adapter = await simulatingContract(fakeSigner(revertString));
+
+    expect(await adapter.simulate('create', ['a', 5])).toMatchObject({ ok: false, reason: 'closed', revert: { name: 'Error', args: ['closed'] } });
+  });
+
+  it('throws failures that are not reverts', async () => {
+    const signer = fakeSigner();
+    signer.call.mockRejectedValueOnce(new Error('network down'));
+    const adapter = await simulatingContract(signer);
+
+    await expect(adapter.simulate('create', ['a', 5])).rejects.toThrow('network down');
+  });
+
+  it('sends a passing call with the simulated input and 20% more gas', async () => {
+    const signer = fakeSigner();
+    const adapter = await simulatingContract(signer);
+
+    const report = await adapter.simulate('create', ['a', 5]);
+    expect(report).toMatchObject({ ok: true, gasEstimate: 100_000n });
+
+    await expect(adapter.sendSimulated(report)).rejects.toThrow('not sent in tests');
+    const [tx] = signer.sendTransaction.mock.calls[0] as unknown as [ethers.TransactionRequest];
+    expect(tx.data).toBe(CREATE_INTERFACE.encodeFunctionData('create(string,bytes32,bytes)', report.args));
+    expect(tx.gasLimit).toBe(120_000n);
+  });
+});
+
+describe('FhevmContract envelopes', () => {
+  it('sends an envelope bound to the sending account', async () => {
+    const signer = fakeSigner();
+    const adapter = await simulatingContract(signer);
+    const envelope = await adapter.encryptToEnvelope('create', ['a', 5]);
+
+    const report = await adapter.simulate('create', ['a', 0], { envelope: serializeEncryptedInput(envelope) });
+
+    expect(report.ok).toBe(true);
+    expect(report.args[1]).toBe(envelope.handles[0].handle);
+  });
+
+  it('refuses an envelope or a userAddress for another account than the sender', async () => {
+    const signer = fakeSigner();
+    const adapter = await simulatingContract(signer);
+    const other = ethers.Wallet.createRandom().address;
+    const envelope = await adapter.encryptToEnvelope('create', ['a', 5], { userAddress: other });
+
+    await expect(adapter.encryptAndSend('create', ['a', 0], { envelope })).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    await expect(adapter.encryptAndSend('create', ['a', 0], { envelope, userAddress: other }))
+      .rejects.toThrow(`Input for ${other} cannot be sent from ${await signer.getAddress()}`);
+    await expect(adapter.simulate('create', ['a', 5], { userAddress: other })).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+    expect(signer.call).not.toHaveBeenCalled();
+    expect(signer.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it("checks the chain of the contract's provider", async () => {
+    const envelope = await (await simulatingContract(fakeSigner())).encryptToEnvelope('create', ['a', 5]);
+    const signer = fakeSigner(undefined, { getNetwork: async () => new ethers.Network('mainnet', 1n) });
+    const adapter = await simulatingContract(signer);
+
+    await expect(adapter.encryptArgs('create', ['a', 0], { envelope, userAddress: envelope.userAddress }))
+      .rejects.toThrow('is for chain 31337, not 1');
+  });
+
+  it('refuses an envelope when the chain is unknown', async () => {
+    const envelope = await (await simulatingContract(fakeSigner())).encryptToEnvelope('create', ['a', 5]);
+    const adapter = await simulatingContract(fakeSigner(), false);
+
+    await expect(adapter.encryptArgs('create', ['a', 0], { envelope, userAddress: envelope.userAddress }))
+      .rejects.toMatchObject({ code: 'INVALID_INPUT', message: expect.stringContaining('Cannot check the chain') });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DecryptionSession } from '../src/core/decryptionSession.js';
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+function fakeInstance() {
+  let keys = 0;
+  return {
+    generateKeypair: vi.fn(async () => ({ publicKey: `pub${++keys}`, privateKey: `priv${keys}` })),
+    createEIP712: vi.fn(async () => ({ domain: {}, types: { UserDecryptRequestVerification: [] }, message: {} })),
+    userDecrypt: vi.fn(async (pairs: { handle: string }[], privateKey: string) =>
+      Object.fromEntries(pairs.map(pair => [pair.handle, privateKey]))
+    ),
+  };
+}
+
+/** Signer whose signatures resolve when the test says so */
+function deferredSigner() {
+  const resolvers: ((signature: string) => void)[] = [];
+  return {
+    signTypedData: vi.fn(() => new Promise<string>(resolve => resolvers.push(resolve))),
+    getAddress: async () => USER,
+    sign: (index: number) => resolvers[index]('0xsig' + index),
+  };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('DecryptionSession', () => {
+  it('reuses one signature across decryptions and shares a pending prompt', async () => {
+    const instance = fakeInstance();
+    const signer = deferredSigner();
+    const session = new DecryptionSession(instance, { contractAddresses: [CONTRACT], signer });
+
+    const first = session.userDecrypt([{ handle: '0x01', contractAddress: CONTRACT }]);
+    const second = session.userDecrypt([{ handle: '0x02', contractAddress: CONTRACT }]);
+    await flush();
+    signer.sign(0);
+
+    expect(await first).toEqual({ '0x01': 'priv1' });
+    expect(await second).toEqual({ '0x02': 'priv1' });
+    await session.userDecrypt([{ handle: '0x03', contractAddress: CONTRACT }]);
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+    expect(session.isValid()).toBe(true);
+  });
+
+  it('does not keep a signature that resolves after revoke()', async () => {
+    const instance = fakeInstance();
+    const signer = deferredSigner();
+    const session = new DecryptionSession(instance, { contractAddresses: [CONTRACT], signer });
+
+    const inFlight = session.userDecrypt([{ handle: '0x01', contractAddress: CONTRACT }]);
+    await flush();
+    session.revoke();
+    signer.sign(0);
+
+    // The caller that was already waiting still gets its result...
+    expect(await inFlight).toEqual({ '0x01': 'priv1' });
+    // ...but the session forgot the authorization
+    expect(session.isValid()).toBe(false);
+
+    const next = session.userDecrypt([{ handle: '0x02', contractAddress: CONTRACT }]);
+    await flush();
+    signer.sign(1);
+    expect(await next).toEqual({ '0x02': 'priv2' });
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+  });
+
+  it('survives a revoke() right after authorization', async () => {
+    const instance = fakeInstance();
+    const signer = deferredSigner();
+    const session = new DecryptionSession(instance, { contractAddresses: [CONTRACT], signer });
+
+    const authorized = session.authorize();
+    await flush();
+    signer.sign(0);
+    await authorized;
+
+    const decryption = session.userDecrypt([{ handle: '0x01', contractAddress: CONTRACT }]);
+    session.revoke();
+    await expect(decryption).resolves.toEqual({ '0x01': 'priv1' });
+  });
+
+  it('rejects contracts outside the session and invalid durations', async () => {
+    const signer = deferredSigner();
+    const session = new DecryptionSession(fakeInstance(), { contractAddresses: [CONTRACT], signer });
+    await expect(session.userDecrypt([{ handle: '0x01', contractAddress: USER }])).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+
+    for (const durationDays of [0, -1, 1.5, Number.NaN]) {
+      expect(() => new DecryptionSession(fakeInstance(), { contractAddresses: [CONTRACT], signer, durationDays }))
+        .toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }));
+    }
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { EncryptedInputBuilder } from '../src/core/encryptedInput.js';
+import { createMockFhevmInstance } from '../src/core/mockInstance.js';
+import { getHandleType } from '../src/core/fheTypes.js';
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const builder = () => new EncryptedInputBuilder(createMockFhevmInstance(), CONTRACT, USER);
+
+describe('EncryptedInputBuilder', () => {
+  it('accepts the bounds of each unsigned type', () => {
+    expect(() => builder().u8(0).u8(255).u16(65535).u32(2 ** 32 - 1).u64((1n << 64n) - 1n)).not.toThrow();
+    expect(() => builder().u128((1n << 128n) - 1n).u256((1n << 256n) - 1n)).not.toThrow();
+  });
+
+  it.each([
+    ['euint8', 256],
+    ['euint16', 65536],
+    ['euint32', 2 ** 32],
+    ['euint64', 1n << 64n],
+    ['euint128', 1n << 128n],
+    ['euint256', 1n << 256n],
+    ['euint32', -1],
+  ] as const)('rejects %s value %s as out of range', (type, value) => {
+    expect(() => builder().add(type, value)).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }));
+  });
+
+  it('rejects values of the wrong kind', () => {
+    expect(() => builder().u32(1.5)).toThrow(/expects an integer/);
+    expect(() => builder().u32(Number.MAX_SAFE_INTEGER + 1)).toThrow(/expects an integer/);
+    expect(() => builder().add('euint32', '5')).toThrow(/number or bigint/);
+    expect(() => builder().add('ebool', 1)).toThrow(/expects a boolean/);
+    expect(() => builder().address('0x1234')).toThrow(/expects an address/);
+  });
+
+  it('refuses to encrypt nothing', async () => {
+    await expect(builder().encrypt()).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+  });
+
+  it('encrypts values in order under one proof', async () => {
+    const result = await builder().bool(true).u32(50000).address(USER.toLowerCase()).encrypt();
+
+    expect(result.types).toEqual(['ebool', 'euint32', 'eaddress']);
+    expect(result.handles.map(getHandleType)).toEqual(result.types);
+    expect(result.inputProof).toMatch(/^0x[0-9a-f]+$/);
+  });
+});
@@ -0,0 +1,72 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { FhevmClient } from '../src/core/fhevm.js';
+import { parseHandle } from '../src/core/fheTypes.js';
+
+const HASH = '0x' + '1a'.repeat(21);
+
+/**
+ * 21 bytes of hash | index | chain id (8 bytes) | FHE type | version
+ */
+function handleOf({ index = 0, chainId = 31337, typeId = 4, version = 0 } = {}) {
+  return ethers.concat([
+    HASH,
+    ethers.toBeHex(index, 1),
+    ethers.toBeHex(chainId, 8),
+    ethers.toBeHex(typeId, 1),
+    ethers.toBeHex(version, 1),
+  ]);
+}
+
+describe('parseHandle', () => {
+  it('decodes the metadata of an input handle', () => {
+    const handle = handleOf({ index: 2, chainId: 11155111, typeId: 5 });
+
+    expect(parseHandle(handle)).toEqual({
+      handle,
+      type: 'euint64',
+      chainId: 11155111,
+      index: 2,
+      version: 0,
+      label: `euint64 #2 @11155111 ${handle.slice(0, 6)}…${handle.slice(-4)}`,
+    });
+  });
+
+  it('marks handles computed on-chain', () => {
+    const parsed = parseHandle(handleOf({ index: 0xff, typeId: 0 }));
+    expect(parsed).toMatchObject({ type: 'ebool', index: null });
+    expect(parsed.label).toMatch(/^ebool computed @31337 /);
+  });
+
+  it('rejects malformed, uninitialized and unknown handles', () => {
+    const cases: [string, string][] = [
+      ['0x1234', 'Invalid ciphertext handle'],
+      [ethers.ZeroHash, 'Uninitialized ciphertext handle'],
+      [handleOf({ version: 1 }), 'Unsupported handle version 1'],
+      [handleOf({ typeId: 1 }), 'Unsupported FHE type 1'],
+    ];
+    for (const [handle, message] of cases) {
+      expect(() => parseHandle(handle)).toThrow(message);
+      expect(() => parseHandle(handle)).toThrow(expect.objectContaining({ code: 'INVALID_HANDLE' }));
+    }
+  });
+
+  it('checks the expected chain and type', () => {
+    const handle = handleOf();
+
+    expect(parseHandle(handle, { chainId: 31337, type: ['euint32', 'euint64'] }).type).toBe('euint32');
+    expect(() => parseHandle(handle, { chainId: 1 })).toThrow('belongs to chain 31337, not 1');
+    expect(() => parseHandle(handle, { type: 'ebool' })).toThrow('is an euint32, expected ebool');
+  });
+});
+
+describe('FhevmClient.inspectHandle', () => {
+  it("checks handles against the client's chain", async () => {
+    const client = new FhevmClient({ mock: true, signer: ethers.Wallet.createRandom() });
+    await client.initialize();
+
+    expect(client.inspectHandle(handleOf(), 'euint32').chainId).toBe(31337);
+    expect(() => client.inspectHandle(handleOf({ chainId: 11155111 }))).toThrow('belongs to chain 11155111, not 31337');
+    expect(() => client.inspectHandle(handleOf(), 'euint8')).toThrow(expect.objectContaining({ code: 'INVALID_HANDLE' }));
+  });
+});
@@ -0,0 +1,53 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { FhevmClient } from '../src/core/fhevm.js';
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+async function mockClient() {
+  const signer = ethers.Wallet.createRandom();
+  const client = new FhevmClient({ mock: true, signer });
+  await client.initialize();
+  return { client, signer };
+}
+
+describe('FhevmClient', () => {
+  it('returns an empty result for an empty batch without prompting', async () => {
+    const { client } = await mockClient();
+    expect(await client.batchDecryptValues([], CONTRACT)).toEqual({});
+  });
+});
+
+describe('FhevmClient.publicDecryptV09', () => {
+  async function encryptedHandles(client: FhevmClient, count: number) {
+    const input = client.input(CONTRACT, await ethers.Wallet.createRandom().getAddress());
+    for (let value = 0; value < count; value++) input.u32(value);
+    return (await input.encrypt()).handles;
+  }
+
+  it('decrypts more handles than the default chunk size under one proof', async () => {
+    const { client } = await mockClient();
+    const handles = await encryptedHandles(client, 25);
+
+    const result = await client.publicDecryptV09(handles);
+
+    expect(result.chunks).toHaveLength(1);
+    expect(result.verifiable).toBe(true);
+    expect(result.decryptionProof).toMatch(/^0x/);
+    expect(result.values[handles[24]]).toEqual({ type: 'euint32', value: 24n });
+  });
+
+  it('refuses to split handles over several proofs unless allowUnverified is set', async () => {
+    const { client } = await mockClient();
+    const handles = await encryptedHandles(client, 5);
+
+    await expect(client.publicDecryptV09(handles, { chunkSize: 2 })).rejects.toMatchObject({ code: 'PROOF_VERIFICATION_FAILED' });
+
+    const merged = await client.publicDecryptV09(handles, { chunkSize: 2, allowUnverified: true });
+    expect(merged.chunks).toHaveLength(3);
+    expect(merged.verifiable).toBe(false);
+    expect(Object.keys(merged.values)).toHaveLength(5);
+    // Same encoding as one request would give, only without a proof
+    expect(merged.abiEncodedClearValues).toBe((await client.publicDecryptV09(handles)).abiEncodedClearValues);
+  });
+});
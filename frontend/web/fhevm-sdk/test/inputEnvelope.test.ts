@@ -0,0 +1,85 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { FhevmClient } from '../src/core/fhevm.js';
+import { EncryptedInputEnvelope, deserializeEncryptedInput, serializeEncryptedInput } from '../src/core/inputEnvelope.js';
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const OTHER_CONTRACT = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+
+async function encryptedEnvelope() {
+  const signer = ethers.Wallet.createRandom();
+  const client = new FhevmClient({ mock: true, signer });
+  await client.initialize();
+  const userAddress = await signer.getAddress();
+  const envelope = await client.input(CONTRACT, userAddress).u32(50000).bool(true).encryptToEnvelope();
+  return { envelope, userAddress };
+}
+
+function expectInvalidInput(run: () => unknown, message: string) {
+  expect(run).toThrow(message);
+  expect(run).toThrow(expect.objectContaining({ code: 'INVALID_INPUT' }));
+}
+
+describe('encrypted input envelopes', () => {
+  it('round-trips through JSON', async () => {
+    const { envelope, userAddress } = await encryptedEnvelope();
+
+    const opened = deserializeEncryptedInput(serializeEncryptedInput(envelope), {
+      chainId: 31337,
+      contractAddress: CONTRACT.toLowerCase(),
+      userAddress,
+      types: ['euint32', 'ebool'],
+    });
+
+    expect(opened).toEqual(envelope);
+    expect(opened.handles.map(({ type }) => type)).toEqual(['euint32', 'ebool']);
+  });
+
+  it('rejects an envelope for another chain', async () => {
+    const { envelope } = await encryptedEnvelope();
+    expectInvalidInput(() => deserializeEncryptedInput(serializeEncryptedInput(envelope), { chainId: 11155111 }), 'is for chain 31337, not 11155111');
+  });
+
+  it('rejects an envelope bound to another contract', async () => {
+    const { envelope } = await encryptedEnvelope();
+    expectInvalidInput(
+      () => deserializeEncryptedInput(serializeEncryptedInput(envelope), { contractAddress: OTHER_CONTRACT }),
+      `bound to contract ${CONTRACT}, not ${OTHER_CONTRACT}`
+    );
+  });
+
+  it('rejects an envelope bound to another user', async () => {
+    const { envelope } = await encryptedEnvelope();
+    const other = ethers.Wallet.createRandom().address;
+    expectInvalidInput(() => deserializeEncryptedInput(serializeEncryptedInput(envelope), { userAddress: other }), `not ${other}`);
+  });
+
+  it('rejects an envelope holding other types than the method takes', async () => {
+    const { envelope } = await encryptedEnvelope();
+    expectInvalidInput(
+      () => deserializeEncryptedInput(serializeEncryptedInput(envelope), { types: ['euint32', 'euint32'] }),
+      'holds (euint32, ebool), expected (euint32, euint32)'
+    );
+  });
+
+  it('rejects a declared type that is not the one in the handle, with the handle error as cause', async () => {
+    const { envelope } = await encryptedEnvelope();
+    const tampered: EncryptedInputEnvelope = { ...envelope, handles: [{ ...envelope.handles[0], type: 'euint64' }, envelope.handles[1]] };
+
+    let caught: any;
+    try {
+      deserializeEncryptedInput(JSON.stringify(tampered));
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toMatchObject({ code: 'INVALID_INPUT', cause: { code: 'INVALID_HANDLE' } });
+    expect(caught.message).toContain('expected euint64');
+  });
+
+  it('rejects malformed JSON and unknown schema versions', async () => {
+    const { envelope } = await encryptedEnvelope();
+
+    expectInvalidInput(() => deserializeEncryptedInput('{'), 'not valid JSON');
+    expectInvalidInput(() => deserializeEncryptedInput(JSON.stringify({ ...envelope, schemaVersion: 2 })), 'Unsupported encrypted input schema version 2');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi } from 'vitest';
+import { RelayerUnavailableError, UserRejectedSignatureError } from '../src/core/errors.js';
+import { backoffDelay, isRetryableError, resolveRetryPolicy, withRetry } from '../src/core/retry.js';
+
+const fast = { baseDelayMs: 1, maxDelayMs: 2 };
+
+const ethersError = (code: string) => Object.assign(new Error(code), { code });
+
+describe('isRetryableError', () => {
+  it('retries transient relayer and network failures', () => {
+    expect(isRetryableError(new RelayerUnavailableError())).toBe(true);
+    expect(isRetryableError(new Error('Failed to fetch'))).toBe(true);
+    expect(isRetryableError(ethersError('NETWORK_ERROR'))).toBe(true);
+    expect(isRetryableError(ethersError('SERVER_ERROR'))).toBe(true);
+  });
+
+  it('never retries rejections, refusals or bad input', () => {
+    expect(isRetryableError(new UserRejectedSignatureError())).toBe(false);
+    expect(isRetryableError(ethersError('ACTION_REJECTED'))).toBe(false);
+    expect(isRetryableError(new Error('0x01 is not allowed for public decryption'))).toBe(false);
+    expect(isRetryableError(ethersError('CALL_EXCEPTION'))).toBe(false);
+  });
+});
+
+describe('resolveRetryPolicy and backoffDelay', () => {
+  it('applies overrides left to right and ignores undefined values', () => {
+    const policy = resolveRetryPolicy('userDecrypt', { retries: 5 }, { retries: undefined, timeoutMs: 10 });
+    expect(policy).toMatchObject({ retries: 5, timeoutMs: 10, idempotent: true });
+  });
+
+  it('caps the jittered delay', () => {
+    for (let retry = 1; retry <= 10; retry++) {
+      const delay = backoffDelay(retry, { baseDelayMs: 100, maxDelayMs: 1_000 });
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(Math.min(1_000, 100 * 2 ** (retry - 1)));
+    }
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures until one attempt succeeds', async () => {
+    const onRetry = vi.fn();
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new RelayerUnavailableError())
+      .mockRejectedValueOnce(ethersError('NETWORK_ERROR'))
+      .mockResolvedValue('ok');
+
+    await expect(withRetry('publicDecrypt', fn, { ...fast, onRetry })).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([info]) => info.attempt)).toEqual([1, 2]);
+  });
+
+  it('rethrows the last error once retries are used up', async () => {
+    const error = new RelayerUnavailableError();
+    const fn = vi.fn().mockRejectedValue(error);
+
+    await expect(withRetry('userDecrypt', fn, { ...fast, retries: 2 })).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry permanent failures', async () => {
+    const fn = vi.fn().mockRejectedValue(new UserRejectedSignatureError());
+    await expect(withRetry('userDecrypt', fn, fast)).rejects.toMatchObject({ code: 'USER_REJECTED_SIGNATURE' });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('never retries operations that are not idempotent', async () => {
+    const fn = vi.fn().mockRejectedValue(ethersError('NETWORK_ERROR'));
+    await expect(withRetry('sendTransaction', fn, { ...fast, retries: 5 })).rejects.toThrow('NETWORK_ERROR');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out each attempt, aborts its signal and retries', async () => {
+    const signals: AbortSignal[] = [];
+    const fn = vi.fn((signal: AbortSignal) => {
+      signals.push(signal);
+      return signals.length === 1 ? new Promise<string>(() => {}) : Promise.resolve('second');
+    });
+
+    await expect(withRetry('rpcRead', fn, { ...fast, timeoutMs: 20 })).resolves.toBe('second');
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  it('throws TimeoutError when every attempt times out', async () => {
+    const fn = () => new Promise<never>(() => {});
+    await expect(withRetry('rpcRead', fn, { ...fast, retries: 1, timeoutMs: 10 })).rejects.toMatchObject({ code: 'TIMEOUT' });
+  });
+
+  it('stops at once when the caller aborts', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn(() => new Promise<never>(() => {}));
+    const run = withRetry('userDecrypt', fn, { ...fast, signal: controller.signal, timeoutMs: 0 });
+    controller.abort();
+
+    await expect(run).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(fn).toHaveBeenCalledTimes(1);
+    await expect(withRetry('userDecrypt', fn, { signal: controller.signal })).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { decodeRevert, isCallException } from '../src/core/revert.js';
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const CONTRACT_INTERFACE = new ethers.Interface(['error NotAllowed(address user, uint256 id)']);
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+/**
+ * CALL_EXCEPTION as ethers raises it for a call reverting with `data`
+ */
+function revertWith(data: string) {
+  return CONTRACT_INTERFACE.makeError(data, { to: CONTRACT, data: '0x' });
+}
+
+describe('decodeRevert', () => {
+  it('decodes a revert string', () => {
+    const error = revertWith(ethers.concat([ethers.id('Error(string)').slice(0, 10), coder.encode(['string'], ['Data already verified'])]));
+
+    expect(isCallException(error)).toBe(true);
+    expect(decodeRevert(error)).toEqual({
+      reason: 'Data already verified',
+      revert: { name: 'Error', args: ['Data already verified'] },
+    });
+  });
+
+  it('decodes a panic', () => {
+    const error = revertWith(ethers.concat([ethers.id('Panic(uint256)').slice(0, 10), coder.encode(['uint256'], [0x11])]));
+
+    expect(decodeRevert(error)).toEqual({ reason: 'Panic(17)', revert: { name: 'Panic', args: [17n] } });
+  });
+
+  it('decodes a custom error of the given interfaces', () => {
+    const error = revertWith(CONTRACT_INTERFACE.encodeErrorResult('NotAllowed', [USER, 3]));
+
+    expect(decodeRevert(error, [CONTRACT_INTERFACE])).toEqual({
+      reason: `NotAllowed(${USER}, 3)`,
+      revert: { name: 'NotAllowed', args: [USER, 3n] },
+    });
+  });
+
+  it('decodes errors of the FHEVM host contracts without an interface', () => {
+    const hostErrors = new ethers.Interface(['error SenderNotAllowed(address sender)']);
+    const error = revertWith(hostErrors.encodeErrorResult('SenderNotAllowed', [USER]));
+
+    expect(decodeRevert(error)).toEqual({ reason: `SenderNotAllowed(${USER})`, revert: { name: 'SenderNotAllowed', args: [USER] } });
+  });
+
+  it('falls back to the message for unknown or missing revert data', () => {
+    const unknown = decodeRevert(revertWith('0xdeadbeef'), [CONTRACT_INTERFACE]);
+    expect(unknown.revert).toBeUndefined();
+    expect(unknown.reason).toBe('execution reverted (unknown custom error)');
+
+    expect(decodeRevert(revertWith('0x'))).toEqual({ reason: 'require(false)' });
+    expect(decodeRevert({ code: 'CALL_EXCEPTION' })).toEqual({ reason: 'Execution reverted' });
+  });
+
+  it('tells reverts from other failures', () => {
+    expect(isCallException(new Error('network down'))).toBe(false);
+    expect(isCallException(undefined)).toBe(false);
+  });
+});
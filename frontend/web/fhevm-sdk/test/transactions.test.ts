@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { TrackedTransaction, TransactionStorage, TransactionTracker } from '../src/core/transactions.js';
+
+const USER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+function sentTransaction(hash: string, fields: { to?: string; data?: string; value?: bigint } = {}) {
+  return { hash, chainId: 31337n, from: USER, nonce: 7, to: CONTRACT, data: '0xabcdef', value: 0n, ...fields } as any;
+}
+
+/**
+ * Just enough of an ethers provider - tests move the chain by editing its fields
+ */
+class FakeChain {
+  blockNumber = 100;
+  minedNonce = 7;
+  receipts = new Map<string, { status: number; blockNumber: number; blockHash: string }>();
+  blocks = new Map<number, any[]>();
+
+  getBlockNumber = async () => this.blockNumber;
+  getNetwork = async () => ({ chainId: 31337n });
+  getTransactionReceipt = async (hash: string) => this.receipts.get(hash) ?? null;
+  getTransactionCount = async () => this.minedNonce;
+  // A node forgets a transaction once another one took its nonce
+  getTransaction = async () => null;
+  getBlock = async (blockNumber: number) => ({ prefetchedTransactions: this.blocks.get(blockNumber) ?? [] });
+
+  mine(tx: any, blockHash = `0x${'b'.repeat(64)}`) {
+    this.blockNumber++;
+    this.minedNonce = tx.nonce + 1;
+    this.blocks.set(this.blockNumber, [tx]);
+    this.receipts.set(tx.hash, { status: 1, blockNumber: this.blockNumber, blockHash });
+  }
+}
+
+function memoryStorage(): TransactionStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return { items, getItem: key => items.get(key) ?? null, setItem: (key, value) => void items.set(key, value) };
+}
+
+const trackers: TransactionTracker[] = [];
+
+function tracker(chain: FakeChain, storage: TransactionStorage | null = null, confirmations = 1) {
+  const created = new TransactionTracker(chain as any, { storage, confirmations, pollIntervalMs: 1 });
+  trackers.push(created);
+  return created;
+}
+
+function statusOf(tracked: TransactionTracker, hash: string, status: TrackedTransaction['status']) {
+  return new Promise<TrackedTransaction>(resolve => {
+    const check = (transaction?: TrackedTransaction) => {
+      if (transaction?.hash === hash && transaction.status === status) {
+        unsubscribe();
+        resolve(transaction);
+      }
+    };
+    const unsubscribe = tracked.subscribe(check);
+    check(tracked.get(hash));
+  });
+}
+
+afterEach(() => {
+  trackers.splice(0).forEach(created => created.stop());
+});
+
+describe('TransactionTracker replacements', () => {
+  it('follows a sped-up transaction to its confirmation', async () => {
+    const chain = new FakeChain();
+    const tracked = tracker(chain);
+    await tracked.track(sentTransaction('0x01'), 'createBusinessData');
+
+    const speedUp = sentTransaction('0x02');
+    chain.mine(speedUp);
+
+    const confirmed = await tracked.wait('0x01');
+    expect(confirmed).toMatchObject({ hash: '0x02', status: 'confirmed', label: 'createBusinessData' });
+    expect(tracked.get('0x01')).toMatchObject({ status: 'replaced', replacement: 'repriced', replacedBy: '0x02' });
+  });
+
+  it('rejects when the transaction was cancelled', async () => {
+    const chain = new FakeChain();
+    const tracked = tracker(chain);
+    await tracked.track(sentTransaction('0x01'));
+
+    chain.mine(sentTransaction('0x02', { to: USER, data: '0x' }));
+
+    await expect(tracked.wait('0x01')).rejects.toMatchObject({ code: 'TRANSACTION_FAILED', hash: '0x01' });
+    expect(tracked.get('0x01')?.replacement).toBe('cancelled');
+  });
+
+  it('rejects when the nonce went to another call', async () => {
+    const chain = new FakeChain();
+    const tracked = tracker(chain);
+    await tracked.track(sentTransaction('0x01'));
+
+    chain.mine(sentTransaction('0x02', { data: '0x123456' }));
+
+    await expect(tracked.wait('0x01')).rejects.toThrow('replaced (replaced)');
+  });
+});
+
+describe('TransactionTracker reorgs', () => {
+  it('returns a transaction to pending when its block is reorged out, then follows it into the new block', async () => {
+    const chain = new FakeChain();
+    const tracked = tracker(chain, null, 3);
+    const tx = sentTransaction('0x01');
+    await tracked.track(tx);
+
+    chain.mine(tx, `0x${'1'.repeat(64)}`);
+    expect(await statusOf(tracked, '0x01', 'mined')).toMatchObject({ blockHash: `0x${'1'.repeat(64)}`, confirmations: 1 });
+
+    chain.receipts.delete('0x01');
+    expect(await statusOf(tracked, '0x01', 'reorged')).toMatchObject({ blockHash: undefined, confirmations: 0 });
+
+    chain.mine(tx, `0x${'2'.repeat(64)}`);
+    chain.blockNumber += 2;
+    expect(await statusOf(tracked, '0x01', 'confirmed')).toMatchObject({ blockHash: `0x${'2'.repeat(64)}`, confirmations: 3 });
+  });
+});
+
+describe('TransactionTracker persistence', () => {
+  it('keeps the call of a pending transaction across a reload', async () => {
+    const chain = new FakeChain();
+    const storage = memoryStorage();
+    const first = tracker(chain, storage);
+    await first.track(sentTransaction('0x01', { value: 5n }), 'deposit');
+    first.stop();
+
+    const [stored] = JSON.parse(storage.items.get('fhevm:transactions')!);
+    expect(stored).toMatchObject({ hash: '0x01', to: CONTRACT, data: '0xabcdef', value: '5' });
+
+    const second = tracker(chain, storage);
+    expect(await second.resume()).toMatchObject([{ hash: '0x01', label: 'deposit' }]);
+
+    chain.mine(sentTransaction('0x02', { value: 5n }));
+    expect(await second.wait('0x01')).toMatchObject({ hash: '0x02', status: 'confirmed' });
+    expect(second.get('0x01')?.replacement).toBe('repriced');
+  });
+
+  it('leaves other chains\' transactions in storage', async () => {
+    const storage = memoryStorage();
+    const other = { ...sentTransaction('0x09'), chainId: 1, value: '0', status: 'submitted', submittedAt: 0, startBlock: 0, confirmations: 0 };
+    storage.setItem('fhevm:transactions', JSON.stringify([other]));
+
+    const tracked = tracker(new FakeChain(), storage);
+    expect(await tracked.resume()).toEqual([]);
+    await tracked.track(sentTransaction('0x01'));
+
+    const hashes = JSON.parse(storage.items.get('fhevm:transactions')!).map((transaction: TrackedTransaction) => transaction.hash);
+    expect(hashes).toEqual(['0x09', '0x01']);
+  });
+});
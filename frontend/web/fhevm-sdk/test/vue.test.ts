@@ -0,0 +1,22 @@
+import { createSSRApp, defineComponent, h } from 'vue';
+import { renderToString } from 'vue/server-renderer';
+import { describe, expect, it } from 'vitest';
+import { useContract, useWallet } from '../src/adapters/vue/index.js';
+
+const CONTRACT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+describe('Vue composables', () => {
+  it('render on the server, where there is no window', async () => {
+    expect(typeof window).toBe('undefined');
+
+    const App = defineComponent({
+      setup() {
+        const wallet = useWallet();
+        const { isReady } = useContract(CONTRACT, []);
+        return () => h('p', `${wallet.isConnected.value} ${isReady.value}`);
+      },
+    });
+
+    expect(await renderToString(createSSRApp(App))).toBe('<p>false false</p>');
+  });
+});
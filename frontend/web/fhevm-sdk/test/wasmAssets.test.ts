@@ -0,0 +1,102 @@
+import { createHash } from 'node:crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_WASM_CDN_BASE_URL, initRelayerWasm } from '../src/core/wasmAssets.js';
+
+const CDN_TFHE = `${DEFAULT_WASM_CDN_BASE_URL}/tfhe_bg.wasm`;
+const CDN_KMS = `${DEFAULT_WASM_CDN_BASE_URL}/kms_lib_bg.wasm`;
+
+const GOOD = new TextEncoder().encode('tfhe wasm');
+const TAMPERED = new TextEncoder().encode('tfhe wasm, tampered');
+const GOOD_SHA256 = createHash('sha256').update(GOOD).digest('hex');
+
+/**
+ * fetch serving `files` by URL, 404 for anything else
+ */
+function serve(files: Record<string, Uint8Array>) {
+  const fetchMock = vi.fn(async (url: string) => {
+    const body = files[url];
+    return body ? new Response(body) : new Response(null, { status: 404 });
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function bytesOf(buffer: unknown) {
+  return new TextDecoder().decode(buffer as ArrayBuffer);
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('initRelayerWasm pinning', () => {
+  it('hands initSDK the checked bytes of a pinned file and the URL of an unpinned one', async () => {
+    serve({ [CDN_TFHE]: GOOD });
+    const initSDK = vi.fn(async () => {});
+
+    await initRelayerWasm(initSDK, { sha256: { tfhe: `0x${GOOD_SHA256.toUpperCase()}` } });
+
+    expect(initSDK).toHaveBeenCalledTimes(1);
+    const [{ tfheParams, kmsParams }] = initSDK.mock.calls[0] as any;
+    expect(bytesOf(tfheParams)).toBe('tfhe wasm');
+    expect(kmsParams).toBe(CDN_KMS);
+  });
+
+  it('never initializes with a file whose hash does not match', async () => {
+    serve({ [CDN_TFHE]: TAMPERED, '/tfhe_bg.wasm': TAMPERED });
+    const initSDK = vi.fn(async () => {});
+
+    await expect(initRelayerWasm(initSDK, { sha256: { tfhe: GOOD_SHA256 } })).rejects.toMatchObject({
+      code: 'WASM_INTEGRITY_FAILED',
+      message: expect.stringContaining(`expected ${GOOD_SHA256}`),
+    });
+    expect(initSDK).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a local copy that matches when the CDN file does not', async () => {
+    serve({ [CDN_TFHE]: TAMPERED, '/tfhe_bg.wasm': GOOD });
+    const initSDK = vi.fn(async () => {});
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+
+    await initRelayerWasm(initSDK, { sha256: { tfhe: GOOD_SHA256 } }, logger);
+
+    expect(initSDK).toHaveBeenCalledTimes(1);
+    expect(bytesOf((initSDK.mock.calls[0] as any)[0].tfheParams)).toBe('tfhe wasm');
+    expect(logger.warn.mock.calls[0][1]).toMatchObject({ code: 'WASM_INTEGRITY_FAILED' });
+  });
+
+  it('reports a missing pinned file as unavailable', async () => {
+    serve({});
+
+    await expect(initRelayerWasm(vi.fn(async () => {}), { offline: true, sha256: { kms: GOOD_SHA256 } }))
+      .rejects.toMatchObject({ code: 'RELAYER_UNAVAILABLE', message: 'Failed to fetch /kms_lib_bg.wasm: HTTP 404' });
+  });
+});
+
+describe('initRelayerWasm offline mode', () => {
+  it('loads the local copies without contacting the CDN', async () => {
+    const fetchMock = serve({ '/assets/tfhe.wasm': GOOD });
+    const initSDK = vi.fn(async () => {});
+
+    await initRelayerWasm(initSDK, {
+      offline: true,
+      localPaths: { tfhe: '/assets/tfhe.wasm' },
+      sha256: { tfhe: GOOD_SHA256 },
+    });
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['/assets/tfhe.wasm']);
+    const [{ tfheParams, kmsParams }] = initSDK.mock.calls[0] as any;
+    expect(bytesOf(tfheParams)).toBe('tfhe wasm');
+    expect(kmsParams).toBe('/kms_lib_bg.wasm');
+  });
+
+  it('does not fall back to the CDN when a local copy fails its check', async () => {
+    const fetchMock = serve({ '/tfhe_bg.wasm': TAMPERED, [CDN_TFHE]: GOOD });
+    const initSDK = vi.fn(async () => {});
+
+    await expect(initRelayerWasm(initSDK, { offline: true, sha256: { tfhe: GOOD_SHA256 } }))
+      .rejects.toMatchObject({ code: 'WASM_INTEGRITY_FAILED' });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['/tfhe_bg.wasm']);
+    expect(initSDK).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,40 @@
+import { build } from 'esbuild';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { SEPOLIA_NETWORK, toRelayerConfig } from '../src/core/networks.js';
+import { WorkerRelayerInstance } from '../src/core/worker/workerInstance.js';
+
+// Node.js cannot run the TypeScript worker - bundle it like the SDK build would.
+// Inside node_modules so the relayer SDK still resolves from the bundle.
+const WORKER_URL = new URL('../node_modules/.cache/fhevm-worker-test/fhevm.worker.mjs', import.meta.url);
+
+// Nothing listens here - the relayer fails at once
+const CLOSED_PORT = 'http://127.0.0.1:9';
+
+beforeAll(async () => {
+  await build({
+    entryPoints: [new URL('../src/core/worker/fhevm.worker.ts', import.meta.url).pathname],
+    outfile: WORKER_URL.pathname,
+    bundle: true,
+    format: 'esm',
+    platform: 'node',
+    external: ['@zama-fhe/relayer-sdk/*'],
+    logLevel: 'error',
+  });
+});
+
+describe('WorkerRelayerInstance', () => {
+  it('starts the worker and rejects with the relayer error raised inside it', async () => {
+    const spawned = WorkerRelayerInstance.spawn({
+      config: { ...toRelayerConfig(SEPOLIA_NETWORK), relayerUrl: CLOSED_PORT, network: CLOSED_PORT },
+      retry: { createInstance: { retries: 0 } },
+    }, WORKER_URL);
+
+    await expect(spawned).rejects.toMatchObject({ code: 'RELAYER_UNAVAILABLE' });
+  }, 30_000);
+
+  it('rejects instead of hanging when the worker cannot load', async () => {
+    const spawned = WorkerRelayerInstance.spawn({ config: {} }, new URL('./missing.worker.mjs', WORKER_URL));
+
+    await expect(spawned).rejects.toMatchObject({ code: 'UNKNOWN', message: expect.stringMatching(/FHEVM worker (crashed|exited)/) });
+  });
+});
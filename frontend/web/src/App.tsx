@@ -1,10 +1,10 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
-import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
+import { ABI, getContractReadOnly, getContractWithSigner, getTransactionTracker } from "./components/useContract";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
+import { useFhevm, useEncrypt, useDecrypt, toFhevmError, decodeRevert, isCallException, getLogger, checkPublicDecryptAccess, inspectHandle, FhevmContract, TrackedTransaction } from '../fhevm-sdk/src';
 import { ethers } from 'ethers';
 
 interface SalaryData {
@@ -28,6 +28,21 @@ interface SalaryAnalysis {
   growthPotential: number;
 }
 
+const describeTransaction = (transaction: TrackedTransaction): string | null => {
+  switch (transaction.status) {
+    case "submitted":
+      return "Waiting for transaction confirmation...";
+    case "mined":
+      return `Mined in block ${transaction.blockNumber}, waiting for confirmations (${transaction.confirmations}/2)...`;
+    case "reorged":
+      return "Block reorganized, waiting for the transaction to be mined again...";
+    case "replaced":
+      return transaction.replacement === "repriced" ? "Transaction sped up, following the replacement..." : null;
+    default:
+      return null;
+  }
+};
+
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
   const [loading, setLoading] = useState(true);
@@ -44,13 +59,15 @@ const App: React.FC = () => {
   const [selectedSalary, setSelectedSalary] = useState<SalaryData | null>(null);
   const [decryptedData, setDecryptedData] = useState<number | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
+  const [decryptAllowed, setDecryptAllowed] = useState<boolean | null>(null);
+  const [handleInfo, setHandleInfo] = useState<{ label: string; title: string; valid: boolean } | null>(null);
   const [contractAddress, setContractAddress] = useState("");
   const [fhevmInitializing, setFhevmInitializing] = useState(false);
   const [userHistory, setUserHistory] = useState<any[]>([]);
   const [stats, setStats] = useState({ total: 0, verified: 0, average: 0 });
 
   const { status, initialize, isInitialized } = useFhevm();
-  const { encrypt, isEncrypting} = useEncrypt();
+  const { isEncrypting } = useEncrypt();
   const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
 
   useEffect(() => {
@@ -97,6 +114,103 @@ const App: React.FC = () => {
     loadDataAndContract();
   }, [isConnected]);
 
+  useEffect(() => {
+    if (!isConnected) return;
+
+    let cancelled = false;
+    let unsubscribe: (() => void)[] = [];
+
+    const subscribeToRecords = async () => {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+
+      const adapter = new FhevmContract(contract, await contract.getAddress(), undefined, ABI);
+      if (cancelled) return;
+
+      // Live updates - reload when a record is created or verified on-chain
+      unsubscribe = ['BusinessDataCreated', 'DecryptionVerified'].map(eventName =>
+        adapter.on(eventName, () => loadData())
+      );
+    };
+
+    subscribeToRecords();
+    return () => {
+      cancelled = true;
+      unsubscribe.forEach(stop => stop());
+    };
+  }, [isConnected]);
+
+  useEffect(() => {
+    if (!isConnected) return;
+
+    let unsubscribe = () => {};
+
+    const followTransactions = async () => {
+      const tracker = await getTransactionTracker();
+      unsubscribe = tracker.subscribe(transaction => {
+        const message = describeTransaction(transaction);
+        if (message) setTransactionStatus({ visible: true, status: "pending", message });
+      });
+
+      // Transactions still pending when the page was reloaded
+      for (const transaction of await tracker.resume()) {
+        tracker.wait(transaction.hash)
+          .then(() => {
+            setTransactionStatus({ visible: true, status: "success", message: `${transaction.label ?? "Transaction"} confirmed` });
+            setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+            return loadData();
+          })
+          .catch(error => {
+            setTransactionStatus({ visible: true, status: "error", message: toFhevmError(error).message });
+            setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+          });
+      }
+    };
+
+    followTransactions().catch(error => getLogger().warn('Transaction tracking unavailable', toFhevmError(error)));
+    return () => unsubscribe();
+  }, [isConnected]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDecryptAllowed(null);
+    setHandleInfo(null);
+
+    const checkDecryptAccess = async () => {
+      if (!selectedSalary || !isInitialized) return;
+
+      try {
+        const contract = await getContractReadOnly();
+        if (!contract) return;
+
+        const handle = await contract.getEncryptedValue(selectedSalary.encryptedSalary);
+        try {
+          const parsed = inspectHandle(handle, "euint32");
+          if (!cancelled) setHandleInfo({ label: parsed.label, title: handle, valid: true });
+        } catch (e) {
+          // Wrong chain or type - the relayer would refuse it anyway
+          if (!cancelled) {
+            setHandleInfo({ label: "Invalid handle", title: toFhevmError(e).message, valid: false });
+            setDecryptAllowed(false);
+          }
+          return;
+        }
+
+        if (selectedSalary.isVerified) return;
+        const report = await checkPublicDecryptAccess([handle]);
+        if (!cancelled) setDecryptAllowed(report.allDecryptable);
+      } catch (e) {
+        // Unknown access - leave decryption enabled and let the relayer decide
+        getLogger().warn('ACL pre-flight failed', toFhevmError(e));
+      }
+    };
+
+    checkDecryptAccess();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedSalary, isInitialized]);
+
   const loadData = async () => {
     if (!isConnected) return;
 
@@ -193,20 +307,26 @@ const App: React.FC = () => {
       const salaryValue = parseInt(newSalaryData.salary) || 0;
       const businessId = `salary-${Date.now()}`;
 
-      const encryptedResult = await encrypt(contractAddress, address, salaryValue);
-
-      const tx = await contract.createBusinessData(
+      // Encrypt and dry-run before the wallet prompt - a revert costs no gas here
+      const adapter = new FhevmContract(contract, contractAddress, undefined, ABI);
+      const preflight = await adapter.simulate('createBusinessData', [
         businessId,
         newSalaryData.name,
-        encryptedResult.encryptedData,
-        encryptedResult.proof,
+        salaryValue,
         parseInt(newSalaryData.position) || 0,
         0,
         newSalaryData.position
-      );
+      ]);
+      if (!preflight.ok) {
+        throw new Error(`Transaction would fail: ${preflight.reason}`);
+      }
 
-      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
-      await tx.wait();
+      const tx = await adapter.sendSimulated(preflight);
+
+      // Follows speed-ups and reorgs, and survives a page reload
+      const tracker = await getTransactionTracker();
+      await tracker.track(tx, "Create Salary Record");
+      await tracker.wait(tx.hash);
 
       setTransactionStatus({ visible: true, status: "success", message: "Salary record created successfully!" });
       addToHistory("Create Salary Record", { name: newSalaryData.name, position: newSalaryData.position });
@@ -218,9 +338,10 @@ const App: React.FC = () => {
       setShowCreateModal(false);
       setNewSalaryData({ name: "", position: "", salary: "" });
     } catch (e: any) {
-      const errorMessage = e.message?.includes("user rejected transaction")
+      const error = toFhevmError(e);
+      const errorMessage = error.code === 'USER_REJECTED_TRANSACTION'
         ? "Transaction rejected by user"
-        : "Submission failed: " + (e.message || "Unknown error");
+        : "Submission failed: " + error.message;
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally {
@@ -282,7 +403,12 @@ const App: React.FC = () => {
       return Number(clearValue);
 
     } catch (e: any) {
-      if (e.message?.includes("Data already verified")) {
+      const error = toFhevmError(e);
+      // decryptAndVerify wraps the CALL_EXCEPTION of the verification call
+      const reverted = [e, error.cause].find(isCallException);
+      const revert = reverted ? decodeRevert(reverted, [new ethers.Interface(ABI)]) : null;
+
+      if (revert?.revert?.name === "Error" && revert.revert.args[0] === "Data already verified") {
         setTransactionStatus({
           visible: true,
           status: "success",
@@ -296,10 +422,17 @@ const App: React.FC = () => {
         return null;
       }
 
+      const errorMessage = error.code === 'USER_REJECTED_TRANSACTION'
+        ? "Transaction rejected by user"
+        : error.code === 'RELAYER_UNAVAILABLE'
+          ? "Decryption service is temporarily unavailable. Please try again later."
+          : error.code === 'PROOF_VERIFICATION_FAILED'
+            ? "Decryption proof was rejected, nothing was submitted: " + error.message
+            : "Decryption failed: " + (revert?.reason ?? error.message);
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Decryption failed: " + (e.message || "Unknown error")
+        message: errorMessage
       });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null;
@@ -632,6 +765,8 @@ const App: React.FC = () => {
           decryptedData={decryptedData}
           setDecryptedData={setDecryptedData}
           isDecrypting={isDecrypting || fheIsDecrypting}
+          decryptAllowed={decryptAllowed}
+          handleInfo={handleInfo}
           decryptData={() => decryptData(selectedSalary.encryptedSalary)}
           renderAnalysisChart={renderAnalysisChart}
         />
@@ -757,9 +892,14 @@ const SalaryDetailModal: React.FC<{
   decryptedData: number | null;
   setDecryptedData: (value: number | null) => void;
   isDecrypting: boolean;
+  decryptAllowed: boolean | null;
+  handleInfo: { label: string; title: string; valid: boolean } | null;
   decryptData: () => Promise<number | null>;
   renderAnalysisChart: (salary: SalaryData, decryptedAmount: number | null) => JSX.Element;
-}> = ({ salary, onClose, decryptedData, setDecryptedData, isDecrypting, decryptData, renderAnalysisChart }) => {
+}> = ({ salary, onClose, decryptedData, setDecryptedData, isDecrypting, decryptAllowed, handleInfo, decryptData, renderAnalysisChart }) => {
+  const aclDenied = decryptAllowed === false;
+  const deniedReason = handleInfo?.valid === false ? handleInfo.title : "This salary has not been made decryptable";
+
   const handleDecrypt = async () => {
     if (decryptedData !== null) {
       setDecryptedData(null);
@@ -803,6 +943,15 @@ const SalaryDetailModal: React.FC<{
           <div className="data-section">
             <h3>Encrypted Salary Data</h3>
 
+            {handleInfo && (
+              <div className="data-row">
+                <div className="data-label">Ciphertext:</div>
+                <span className={`data-badge ${handleInfo.valid ? 'local' : 'invalid'}`} title={handleInfo.title}>
+                  {handleInfo.label}
+                </span>
+              </div>
+            )}
+
             <div className="data-row">
               <div className="data-label">Annual Salary:</div>
               <div className="data-value">
@@ -816,12 +965,15 @@ const SalaryDetailModal: React.FC<{
               <button
                 className={`decrypt-btn ${(salary.isVerified || decryptedData !== null) ? 'decrypted' : ''}`}
                 onClick={handleDecrypt}
-                disabled={isDecrypting}
+                disabled={isDecrypting || aclDenied}
+                title={aclDenied ? deniedReason : undefined}
               >
                 {isDecrypting ? (
                   "🔓 Analyzing..."
                 ) : salary.isVerified ? (
                   "✅ Benchmarked"
+                ) : aclDenied ? (
+                  "🔒 Not Decryptable"
                 ) : decryptedData !== null ? (
                   "🔄 Re-analyze"
                 ) : (
@@ -872,7 +1024,8 @@ const SalaryDetailModal: React.FC<{
           {!salary.isVerified && (
             <button
               onClick={handleDecrypt}
-              disabled={isDecrypting}
+              disabled={isDecrypting || aclDenied}
+              title={aclDenied ? deniedReason : undefined}
               className="verify-btn"
             >
               {isDecrypting ? "Analyzing..." : "Get Benchmark"}
@@ -2,22 +2,11 @@
 import { ethers } from "ethers";
 import abiJson from "../abi/UniversalFHEAdapter.json";
 import configJson from "../config.json";
+import { TransactionTracker, withRetry } from "../../fhevm-sdk/src";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
-const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
-  try {
-    return await fn();
-  } catch (e) {
-    if (retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retry(fn, retries - 1, delay * 2);
-    }
-    throw e;
-  }
-};
-
 const getTestnetProvider = async () => {
   const rpcUrls = [
     "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
@@ -34,12 +23,8 @@ const getTestnetProvider = async () => {
         chainId: 11155111
       });
 
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) =>
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
+      // One attempt per URL - the next URL is the fallback
+      const blockNumber = await withRetry("rpcRead", () => provider.getBlockNumber(), { retries: 0 });
 
       return provider;
     } catch (error) {
@@ -54,7 +39,7 @@ export async function getContractReadOnly() {
     const provider = await getTestnetProvider();
     const contract = new ethers.Contract(config.contractAddress, ABI, provider);
 
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await withRetry("rpcRead", () => provider.getCode(config.contractAddress));
     if (code === "0x") {
       return null;
     }
@@ -90,6 +75,21 @@ export async function getContractWithSigner() {
   }
 }
 
+let transactionTracker: Promise<TransactionTracker> | null = null;
+
+// One tracker for the app - pending transactions survive a reload in localStorage
+export function getTransactionTracker() {
+  if (!transactionTracker) {
+    transactionTracker = getTestnetProvider()
+      .then(provider => new TransactionTracker(provider, { confirmations: 2 }))
+      .catch(error => {
+        transactionTracker = null;
+        throw error;
+      });
+  }
+  return transactionTracker;
+}
+
 export function normAddr(a: string) {
   return a ? a.toLowerCase() : a;
 }